@@ -0,0 +1,69 @@
+import { useEffect, useRef } from 'react';
+import { CaptureRow } from './CaptureRow';
+import { ItemSkeleton } from './ItemSkeleton';
+import type { Capture } from '@/types';
+
+interface CaptureListProps {
+  captures: Capture[];
+  showFavicons: boolean;
+  isLoading: boolean;
+  hasMore: boolean;
+  onLoadMore: () => void;
+  onUndo: (captureId: string) => void;
+  onRestore: (captureId: string) => void;
+}
+
+export function CaptureList({
+  captures,
+  showFavicons,
+  isLoading,
+  hasMore,
+  onLoadMore,
+  onUndo,
+  onRestore,
+}: CaptureListProps) {
+  const loadMoreRef = useRef<HTMLDivElement>(null);
+
+  // Intersection observer for infinite scroll
+  useEffect(() => {
+    const observer = new IntersectionObserver(
+      (entries) => {
+        if (entries[0].isIntersecting && hasMore && !isLoading) {
+          onLoadMore();
+        }
+      },
+      { threshold: 0.1 }
+    );
+
+    if (loadMoreRef.current) {
+      observer.observe(loadMoreRef.current);
+    }
+
+    return () => observer.disconnect();
+  }, [hasMore, isLoading, onLoadMore]);
+
+  return (
+    <div className="px-2">
+      {captures.map((capture, index) => (
+        <CaptureRow
+          key={capture.captureId}
+          capture={capture}
+          rank={index + 1}
+          showFavicons={showFavicons}
+          onUndo={() => onUndo(capture.captureId)}
+          onRestore={() => onRestore(capture.captureId)}
+        />
+      ))}
+
+      {/* Load more trigger */}
+      <div ref={loadMoreRef} className="h-4" />
+
+      {/* Loading indicator */}
+      {isLoading && captures.length > 0 && (
+        <div className="py-2">
+          <ItemSkeleton count={3} />
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,275 @@
+import { useState } from 'react';
+import { Globe } from 'lucide-react';
+import { getCaptureEntries, type CaptureEntry } from '@/lib/db/captures';
+import { formatRelativeTime, formatAbsoluteTime } from '@/lib/utils/time';
+import { isValidFaviconUrl } from '@/lib/utils/url';
+import { getTabGroupColor } from '@/lib/utils/tabGroups';
+import type { Capture, CaptureScope, CaptureTrigger } from '@/types';
+
+function describeScope(scope: CaptureScope): string {
+  switch (scope.type) {
+    case 'all':
+      return 'all tabs';
+    case 'currentWindow':
+      return 'current window';
+    case 'highlighted':
+      return 'selected tabs';
+    case 'tabGroup':
+      return 'tab group';
+    case 'tabsToRight':
+      return 'tabs to the right';
+    case 'tab':
+      return 'single tab';
+    case 'link':
+      return 'link';
+    case 'idle':
+      return 'idle tabs';
+    case 'window':
+      return 'one window';
+    case 'picked':
+      return 'picked tabs';
+  }
+}
+
+function describeTrigger(trigger: CaptureTrigger): string {
+  switch (trigger) {
+    case 'manual':
+      return 'manual';
+    case 'scheduled':
+      return 'scheduled';
+    case 'idle':
+      return 'idle harvest';
+    case 'threshold':
+      return 'tab limit';
+    case 'windowClosed':
+      return 'window closed';
+  }
+}
+
+interface EntryGroup {
+  key: string;
+  title: string | null;
+  color: string | null;
+  entries: CaptureEntry[];
+}
+
+interface WindowSection {
+  key: string;
+  label: string;
+  groups: EntryGroup[];
+  ungrouped: CaptureEntry[];
+}
+
+/**
+ * Arrange a capture's items by window, then by tab group.
+ * A URL open in several windows is listed under the first one.
+ */
+function groupEntriesByWindow(entries: CaptureEntry[]): WindowSection[] {
+  const sections = new Map<string, WindowSection>();
+
+  for (const entry of entries) {
+    const windowId = entry.event.windowIds[0];
+    const key = windowId === undefined ? 'none' : String(windowId);
+
+    let section = sections.get(key);
+    if (!section) {
+      section = { key, label: '', groups: [], ungrouped: [] };
+      sections.set(key, section);
+    }
+
+    if (entry.event.groupId === null) {
+      section.ungrouped.push(entry);
+      continue;
+    }
+
+    const groupKey = String(entry.event.groupId);
+    let group = section.groups.find((g) => g.key === groupKey);
+    if (!group) {
+      group = { key: groupKey, title: entry.event.groupTitle, color: entry.event.groupColor, entries: [] };
+      section.groups.push(group);
+    }
+    group.entries.push(entry);
+  }
+
+  return Array.from(sections.values()).map((section, i) => ({
+    ...section,
+    label: section.key === 'none' ? 'Not from a tab' : `Window ${i + 1}`,
+  }));
+}
+
+function EntryLink({ entry, showFavicons }: { entry: CaptureEntry; showFavicons: boolean }) {
+  const { item, event } = entry;
+
+  return (
+    <div className="flex items-start gap-1 py-0.5">
+      {showFavicons && (
+        isValidFaviconUrl(item.favIconUrl) ? (
+          <img src={item.favIconUrl!} alt="" className="w-4 h-4 shrink-0 mt-0.5" />
+        ) : (
+          <Globe size={14} className="text-hn-text-secondary shrink-0 mt-0.5" />
+        )
+      )}
+      <div>
+        <a
+          href={item.url}
+          target="_blank"
+          rel="noopener noreferrer"
+          className="text-hn-link hover:underline break-words"
+          title={item.url}
+        >
+          {item.title}
+        </a>
+        {' '}
+        <span className="text-hn-text-secondary text-[8pt]">
+          ({item.domain}){event.tabCount > 1 && ` ×${event.tabCount}`}
+        </span>
+      </div>
+    </div>
+  );
+}
+
+interface CaptureRowProps {
+  capture: Capture;
+  rank: number;
+  showFavicons: boolean;
+  onUndo: () => void;
+  onRestore: () => void;
+}
+
+export function CaptureRow({ capture, rank, showFavicons, onUndo, onRestore }: CaptureRowProps) {
+  const [isExpanded, setIsExpanded] = useState(false);
+  const [sections, setSections] = useState<WindowSection[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const toggleExpanded = async () => {
+    const expanding = !isExpanded;
+    setIsExpanded(expanding);
+
+    if (expanding && !sections) {
+      try {
+        const entries = await getCaptureEntries(capture.captureId);
+        setSections(groupEntriesByWindow(entries));
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to load capture');
+      }
+    }
+  };
+
+  const stats = [
+    `${capture.tabCountCaptured} tab${capture.tabCountCaptured !== 1 ? 's' : ''}`,
+    `${capture.uniqueUrlCount} unique`,
+    capture.tabCountInsertedNew > 0 && `${capture.tabCountInsertedNew} new`,
+    capture.tabCountUpdatedExisting > 0 && `${capture.tabCountUpdatedExisting} updated`,
+    capture.tabCountAlreadyDeleted > 0 && `${capture.tabCountAlreadyDeleted} hidden`,
+    capture.tabCountResurfaced > 0 && `${capture.tabCountResurfaced} resurfaced`,
+    capture.tabCountSkippedInternal > 0 && `${capture.tabCountSkippedInternal} skipped`,
+    capture.tabCountSkippedByRule > 0 && `${capture.tabCountSkippedByRule} excluded`,
+  ].filter(Boolean);
+
+  return (
+    <div className="flex items-start gap-1 py-1">
+      {/* Rank */}
+      <span className="text-hn-text-secondary w-5 text-right shrink-0">
+        {rank}.
+      </span>
+
+      <div className="flex-1 min-w-0 pl-[18px]">
+        {/* Line 1: When + how */}
+        <div>
+          <button
+            onClick={toggleExpanded}
+            className="text-hn-link hover:underline cursor-pointer text-left"
+            title={formatAbsoluteTime(capture.createdAt)}
+          >
+            {formatRelativeTime(capture.createdAt)}
+          </button>
+          {capture.name && (
+            <>
+              {' '}
+              <span className="font-medium">{capture.name}</span>
+            </>
+          )}
+          {' '}
+          <span className="text-hn-text-secondary text-[8pt]">
+            ({describeScope(capture.scope)}
+            {capture.trigger !== 'manual' && `, ${describeTrigger(capture.trigger)}`}
+            {capture.autoCloseEnabled && ', closed tabs'})
+          </span>
+        </div>
+
+        {/* Line 2: Stats + Actions */}
+        <div className="text-[8pt] text-hn-text-secondary flex items-center gap-1 flex-wrap">
+          <span>{stats.join(' · ')}</span>
+          {capture.failures.length > 0 && (
+            <span className="text-destructive">
+              · {capture.failures.length} failed
+            </span>
+          )}
+          <span>|</span>
+          <button onClick={toggleExpanded} className="hover:underline cursor-pointer">
+            {isExpanded ? 'collapse' : 'expand'}
+          </button>
+          <span>|</span>
+          <button onClick={onRestore} className="hover:underline cursor-pointer">
+            restore
+          </button>
+          <span>|</span>
+          <button onClick={onUndo} className="hover:underline cursor-pointer">
+            undo
+          </button>
+        </div>
+
+        {/* Expanded: items by window and tab group */}
+        {isExpanded && (
+          <div className="mt-1 mb-2">
+            {error && <p className="text-destructive text-[8pt]">{error}</p>}
+            {!error && !sections && (
+              <p className="text-hn-text-secondary text-[8pt]">Loading...</p>
+            )}
+            {capture.failures.length > 0 && (
+              <div className="mb-2">
+                <div className="text-[8pt] text-destructive font-bold">
+                  Not saved
+                </div>
+                {capture.failures.map((failure) => (
+                  <div key={failure.url} className="text-[8pt] py-0.5 break-all">
+                    <span className="text-hn-text">{failure.url}</span>
+                    {' '}
+                    <span className="text-hn-text-secondary">({failure.error})</span>
+                  </div>
+                ))}
+              </div>
+            )}
+            {sections?.length === 0 && (
+              <p className="text-hn-text-secondary text-[8pt]">No items remain from this capture.</p>
+            )}
+            {sections?.map((section) => (
+              <div key={section.key} className="mb-2">
+                <div className="text-[8pt] text-hn-text-secondary font-bold">
+                  {section.label}
+                </div>
+                {section.groups.map((group) => (
+                  <div
+                    key={group.key}
+                    className="border-l-2 pl-2 my-1"
+                    style={{ borderColor: getTabGroupColor(group.color) }}
+                  >
+                    <div className="text-[8pt] font-bold" style={{ color: getTabGroupColor(group.color) }}>
+                      {group.title || 'Untitled group'}
+                    </div>
+                    {group.entries.map((entry) => (
+                      <EntryLink key={entry.item.itemId} entry={entry} showFavicons={showFavicons} />
+                    ))}
+                  </div>
+                ))}
+                {section.ungrouped.map((entry) => (
+                  <EntryLink key={entry.item.itemId} entry={entry} showFavicons={showFavicons} />
+                ))}
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
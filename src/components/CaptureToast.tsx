@@ -0,0 +1,78 @@
+import { useState, useEffect, useRef } from 'react';
+import { cn } from '@/lib/utils/cn';
+import { useCaptureProgress } from '@/hooks/useCaptureProgress';
+import { useLastCapture } from '@/hooks/useLastCapture';
+import type { CaptureResult } from '@/types';
+
+const SUMMARY_DISPLAY_MS = 8000;
+
+/**
+ * Summarize a capture as "N new, M updated, K skipped" (plus any resurfaced or failed)
+ * Hidden items count as updated; internal and excluded tabs as skipped.
+ */
+function formatCaptureSummary(result: CaptureResult): string {
+  const updated = result.tabCountUpdatedExisting + result.tabCountAlreadyDeleted;
+  const skipped = result.tabCountSkippedInternal + result.tabCountSkippedByRule;
+  const failed = result.failures.reduce((sum, failure) => sum + failure.tabCount, 0);
+  let summary = `${result.tabCountInsertedNew} new, ${updated} updated, ${skipped} skipped`;
+  if (result.tabCountResurfaced > 0) summary += `, ${result.tabCountResurfaced} resurfaced`;
+  return failed > 0 ? `${summary}, ${failed} failed` : summary;
+}
+
+/**
+ * Shows progress while a capture runs, then a summary of captures
+ * completed while this page is open.
+ */
+export function CaptureToast() {
+  const progress = useCaptureProgress();
+  const lastCapture = useLastCapture();
+  const [summary, setSummary] = useState<CaptureResult | null>(null);
+  const openedAt = useRef(Date.now());
+
+  // Show the summary for captures made after the page opened (not after undo)
+  useEffect(() => {
+    if (!lastCapture || lastCapture.createdAt < openedAt.current) return;
+
+    openedAt.current = lastCapture.createdAt + 1;
+    setSummary(lastCapture);
+  }, [lastCapture]);
+
+  // Hide the summary after a while
+  useEffect(() => {
+    if (!summary) return;
+
+    const timeout = setTimeout(() => setSummary(null), SUMMARY_DISPLAY_MS);
+    return () => clearTimeout(timeout);
+  }, [summary]);
+
+  if (!progress && !summary) return null;
+
+  return (
+    <div
+      role="status"
+      className={cn(
+        'fixed bottom-4 right-4 z-40 flex items-center gap-2 px-3 py-2',
+        'bg-white dark:bg-gray-800',
+        'border border-gray-200 dark:border-gray-700',
+        'rounded-lg shadow-xl text-[9pt] text-hn-text'
+      )}
+    >
+      {progress ? (
+        <span>
+          Saving tabs... {progress.processed}/{progress.total}
+        </span>
+      ) : summary && (
+        <>
+          <span>Saved: {formatCaptureSummary(summary)}</span>
+          <button
+            onClick={() => setSummary(null)}
+            className="text-hn-text-secondary hover:text-hn-text cursor-pointer"
+            aria-label="Dismiss"
+          >
+            &times;
+          </button>
+        </>
+      )}
+    </div>
+  );
+}
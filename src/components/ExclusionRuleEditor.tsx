@@ -0,0 +1,129 @@
+import { useState } from 'react';
+import { Select } from '@/components/ui/Select';
+import { Button } from '@/components/ui/Button';
+import { validateExclusionRule } from '@/lib/capture/exclusions';
+import { generateId } from '@/lib/utils/uuid';
+import type { ExclusionRule, ExclusionRuleType } from '@/types';
+
+const RULE_TYPE_OPTIONS: { value: ExclusionRuleType; label: string }[] = [
+  { value: 'domain', label: 'Domain' },
+  { value: 'urlGlob', label: 'URL pattern (*)' },
+  { value: 'urlRegex', label: 'URL regex' },
+  { value: 'groupTitle', label: 'Tab group title' },
+  { value: 'pinned', label: 'Pinned tabs' },
+];
+
+const PLACEHOLDERS: Record<ExclusionRuleType, string> = {
+  domain: 'mail.google.com',
+  urlGlob: 'http://localhost:*',
+  urlRegex: '^https://.*\\.internal/',
+  groupTitle: 'Work',
+  pinned: '',
+};
+
+function describeRule(rule: ExclusionRule): string {
+  const label = RULE_TYPE_OPTIONS.find((o) => o.value === rule.type)?.label ?? rule.type;
+  return rule.type === 'pinned' ? label : `${label}: ${rule.pattern}`;
+}
+
+interface ExclusionRuleEditorProps {
+  rules: ExclusionRule[];
+  onChange: (rules: ExclusionRule[]) => void;
+}
+
+export function ExclusionRuleEditor({ rules, onChange }: ExclusionRuleEditorProps) {
+  const [type, setType] = useState<ExclusionRuleType>('domain');
+  const [pattern, setPattern] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const addRule = () => {
+    const validationError = validateExclusionRule({ type, pattern });
+    if (validationError) {
+      setError(validationError);
+      return;
+    }
+
+    onChange([
+      ...rules,
+      { id: generateId(), type, pattern: type === 'pinned' ? '' : pattern.trim(), enabled: true },
+    ]);
+    setPattern('');
+    setError(null);
+  };
+
+  const toggleRule = (id: string) => {
+    onChange(rules.map((rule) => (rule.id === id ? { ...rule, enabled: !rule.enabled } : rule)));
+  };
+
+  const removeRule = (id: string) => {
+    onChange(rules.filter((rule) => rule.id !== id));
+  };
+
+  return (
+    <div>
+      {/* Existing rules */}
+      {rules.length === 0 ? (
+        <p className="text-sm text-hn-text-secondary mb-3">No exclusion rules.</p>
+      ) : (
+        <ul className="mb-3 text-sm">
+          {rules.map((rule) => (
+            <li
+              key={rule.id}
+              className="flex items-center justify-between py-1 border-b border-gray-100 dark:border-gray-700"
+            >
+              <label className="flex items-center gap-2 cursor-pointer min-w-0">
+                <input
+                  type="checkbox"
+                  checked={rule.enabled}
+                  onChange={() => toggleRule(rule.id)}
+                  className="rounded"
+                />
+                <span className={rule.enabled ? 'break-all' : 'break-all text-hn-text-secondary line-through'}>
+                  {describeRule(rule)}
+                </span>
+              </label>
+              <button
+                onClick={() => removeRule(rule.id)}
+                className="text-hn-text-secondary hover:underline cursor-pointer ml-2 shrink-0"
+              >
+                remove
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {/* Add rule */}
+      <div className="flex items-center gap-2">
+        <Select
+          id="exclusionRuleType"
+          value={type}
+          onChange={(value) => {
+            setType(value);
+            setError(null);
+          }}
+          options={RULE_TYPE_OPTIONS}
+        />
+        {type !== 'pinned' && (
+          <input
+            type="text"
+            value={pattern}
+            placeholder={PLACEHOLDERS[type]}
+            onChange={(e) => setPattern(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') addRule();
+            }}
+            className="flex-1 min-w-0 border border-gray-300 dark:border-gray-600 rounded px-2 py-1 text-sm bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100 focus:outline-none focus:ring-2 focus:ring-hn-header"
+          />
+        )}
+        <Button onClick={addRule} variant="secondary" size="sm">
+          Add
+        </Button>
+      </div>
+
+      {error && (
+        <p className="text-sm text-red-600 dark:text-red-400 mt-2">{error}</p>
+      )}
+    </div>
+  );
+}
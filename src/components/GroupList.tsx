@@ -0,0 +1,46 @@
+import { formatRelativeTime, formatAbsoluteTime } from '@/lib/utils/time';
+import { getTabGroupColor } from '@/lib/utils/tabGroups';
+import type { CapturedGroup } from '@/types';
+
+interface GroupListProps {
+  groups: CapturedGroup[];
+  onSelect: (title: string) => void;
+}
+
+export function GroupList({ groups, onSelect }: GroupListProps) {
+  return (
+    <div className="px-2">
+      {groups.map((group, index) => (
+        <div key={group.title} className="flex items-start gap-1 py-1">
+          {/* Rank */}
+          <span className="text-hn-text-secondary w-5 text-right shrink-0">
+            {index + 1}.
+          </span>
+
+          <div className="flex-1 min-w-0 pl-[18px]">
+            <div className="flex items-center gap-1">
+              <span
+                className="inline-block w-2.5 h-2.5 rounded-full shrink-0"
+                style={{ backgroundColor: getTabGroupColor(group.color) }}
+                aria-hidden="true"
+              />
+              <button
+                onClick={() => onSelect(group.title)}
+                className="font-bold hover:underline cursor-pointer text-left break-words"
+                style={{ color: getTabGroupColor(group.color) }}
+              >
+                {group.title}
+              </button>
+            </div>
+            <div className="text-[8pt] text-hn-text-secondary">
+              {group.itemCount} item{group.itemCount !== 1 ? 's' : ''} | last captured{' '}
+              <span title={formatAbsoluteTime(group.lastCapturedAt)}>
+                {formatRelativeTime(group.lastCapturedAt)}
+              </span>
+            </div>
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -1,22 +1,60 @@
+import { useState, useEffect } from 'react';
 import { cn } from '@/lib/utils/cn';
+import { isIncognitoContext } from '@/lib/utils/incognito';
 import { useView } from '@/contexts/ViewContext';
+import { useUndoCapture } from '@/hooks/useUndoCapture';
+import { useTags } from '@/hooks/useTags';
+import { useCaptureListener } from '@/hooks/useCaptureListener';
+import { ConfirmationModal } from '@/components/ui/ConfirmationModal';
+import { browser } from '@/lib/browser';
 import type { ViewType } from '@/types';
 
+const SEARCH_DEBOUNCE_MS = 200;
+
 const NAV_ITEMS: { view: ViewType; label: string }[] = [
   { view: 'new', label: 'new' },
   { view: 'old', label: 'old' },
   { view: 'favorites', label: 'favorites' },
   { view: 'frequent', label: 'frequent' },
   { view: 'hidden', label: 'hidden' },
+  { view: 'captures', label: 'captures' },
+  { view: 'groups', label: 'groups' },
 ];
 
 export function Header() {
-  const { currentView, setView } = useView();
+  const {
+    currentView,
+    setView,
+    searchQuery,
+    setSearchQuery,
+    currentTag,
+    setTag,
+    currentGroup,
+  } = useView();
+  const { tags, refresh: refreshTags } = useTags();
+  const { undo, isUndoing, error: undoError } = useUndoCapture();
+  const [isUndoModalOpen, setIsUndoModalOpen] = useState(false);
+  const [searchInput, setSearchInput] = useState(searchQuery);
+
+  // Captures can add tagged items (via import merges or undo)
+  useCaptureListener(refreshTags);
+
+  // Search once typing pauses
+  useEffect(() => {
+    const timeout = setTimeout(() => setSearchQuery(searchInput.trim()), SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timeout);
+  }, [searchInput, setSearchQuery]);
+
+  const confirmUndo = async () => {
+    await undo();
+    setIsUndoModalOpen(false);
+  };
 
   return (
     <header className="bg-hn-header text-white">
       <nav className="flex items-center gap-1 px-2 py-0.5 text-[10pt]">
         <span className="font-bold mr-1">bmbl</span>
+        {isIncognitoContext() && <span className="mr-1 opacity-80">(incognito)</span>}
 
         {NAV_ITEMS.map((item, index) => (
           <span key={item.view} className="flex items-center">
@@ -33,16 +71,80 @@ export function Header() {
           </span>
         ))}
 
+        <span className="mx-1">|</span>
+        {currentTag ? (
+          <span className="flex items-center gap-1 font-bold">
+            #{currentTag}
+            <button
+              onClick={() => setTag(null)}
+              className="font-normal hover:underline cursor-pointer"
+              title="Show all items"
+              aria-label={`Stop filtering by ${currentTag}`}
+            >
+              ×
+            </button>
+          </span>
+        ) : (
+          <select
+            value=""
+            aria-label="Filter by tag"
+            onFocus={refreshTags} // Tags may have changed since the page loaded
+            onChange={(e) => setTag(e.target.value || null)}
+            className="bg-transparent text-white cursor-pointer hover:underline focus:outline-none"
+          >
+            <option value="" className="text-black">tags</option>
+            {tags.map(({ tag, count }) => (
+              <option key={tag} value={tag} className="text-black">
+                #{tag} ({count})
+              </option>
+            ))}
+          </select>
+        )}
+
         <span className="mx-1">|</span>
         <a
-          href={chrome.runtime.getURL('options.html')}
+          href={browser.runtime.getURL('/options.html')}
           target="_blank"
           rel="noopener noreferrer"
           className="hover:underline"
         >
           settings
         </a>
+
+        <span className="ml-auto flex items-center gap-1">
+          {currentView !== 'captures' && (currentView !== 'groups' || currentGroup) && (
+            <input
+              type="search"
+              value={searchInput}
+              placeholder="search"
+              aria-label={`Search ${currentGroup ?? currentView}`}
+              onChange={(e) => setSearchInput(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === 'Escape') setSearchInput('');
+              }}
+              className="w-40 mr-2 px-1 py-0 text-[9pt] text-black bg-white border border-hn-header-dark rounded-sm focus:outline-none"
+            />
+          )}
+          {undoError && <span className="text-[8pt] opacity-80">{undoError}</span>}
+          <button
+            onClick={() => setIsUndoModalOpen(true)}
+            disabled={isUndoing}
+            className="hover:underline cursor-pointer disabled:opacity-50"
+          >
+            undo last save
+          </button>
+        </span>
       </nav>
+
+      <ConfirmationModal
+        isOpen={isUndoModalOpen}
+        title="Undo Last Save"
+        message="Undo the most recent capture? Items it added will be removed, save counts reverted, and any tabs it closed reopened."
+        confirmLabel="Undo"
+        isLoading={isUndoing}
+        onConfirm={confirmUndo}
+        onCancel={() => setIsUndoModalOpen(false)}
+      />
     </header>
   );
 }
@@ -1,11 +1,11 @@
 import { useEffect, useRef } from 'react';
 import { ItemRow } from './ItemRow';
 import { ItemSkeleton } from './ItemSkeleton';
-import type { Item, ViewType } from '@/types';
+import type { Item, ItemViewType } from '@/types';
 
 interface ItemListProps {
   items: Item[];
-  view: ViewType;
+  view: ItemViewType;
   showFavicons: boolean;
   isLoading: boolean;
   hasMore: boolean;
@@ -15,6 +15,9 @@ interface ItemListProps {
   onUnfavorite: (itemId: string) => void;
   onHide: (itemId: string) => void;
   onRestore: (itemId: string) => void;
+  onTag: (itemId: string, name: string) => void;
+  onUntag: (itemId: string, tag: string) => void;
+  onSelectTag: (tag: string) => void;
 }
 
 export function ItemList({
@@ -29,6 +32,9 @@ export function ItemList({
   onUnfavorite,
   onHide,
   onRestore,
+  onTag,
+  onUntag,
+  onSelectTag,
 }: ItemListProps) {
   const loadMoreRef = useRef<HTMLDivElement>(null);
 
@@ -63,6 +69,9 @@ export function ItemList({
           onUnfavorite={() => onUnfavorite(item.itemId)}
           onHide={() => onHide(item.itemId)}
           onRestore={() => onRestore(item.itemId)}
+          onTag={(name) => onTag(item.itemId, name)}
+          onUntag={(tag) => onUntag(item.itemId, tag)}
+          onSelectTag={onSelectTag}
         />
       ))}
 
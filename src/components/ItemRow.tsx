@@ -1,7 +1,9 @@
+import { useState } from 'react';
 import { Globe } from 'lucide-react';
 import { formatRelativeTime, formatAbsoluteTime } from '@/lib/utils/time';
 import { isValidFaviconUrl } from '@/lib/utils/url';
-import type { Item, ViewType } from '@/types';
+import { isResurfaced } from '@/lib/db/items';
+import type { Item, ItemViewType } from '@/types';
 import { NOT_FAVORITED } from '@/types';
 
 function VoteArrow({ onClick }: { onClick: () => void }) {
@@ -24,12 +26,32 @@ function VoteArrow({ onClick }: { onClick: () => void }) {
 interface ItemRowProps {
   item: Item;
   rank: number;
-  view: ViewType;
+  view: ItemViewType;
   showFavicons: boolean;
   onFavorite: () => void;
   onUnfavorite: () => void;
   onHide: () => void;
   onRestore: () => void;
+  onTag: (name: string) => void;
+  onUntag: (tag: string) => void;
+  onSelectTag: (tag: string) => void;
+}
+
+function TagChip({ tag, onSelect, onRemove }: { tag: string; onSelect: () => void; onRemove: () => void }) {
+  return (
+    <span className="inline-flex items-center text-[8pt] text-hn-text-secondary bg-gray-100 dark:bg-gray-700 rounded-sm px-1 mr-1">
+      <button onClick={onSelect} className="hover:underline cursor-pointer" title={`Show items tagged #${tag}`}>
+        #{tag}
+      </button>
+      <button
+        onClick={onRemove}
+        className="ml-0.5 hover:text-hn-text cursor-pointer"
+        aria-label={`Remove tag ${tag}`}
+      >
+        ×
+      </button>
+    </span>
+  );
 }
 
 export function ItemRow({
@@ -41,8 +63,23 @@ export function ItemRow({
   onUnfavorite,
   onHide,
   onRestore,
+  onTag,
+  onUntag,
+  onSelectTag,
 }: ItemRowProps) {
   const isHiddenView = view === 'hidden';
+  const [isTagging, setIsTagging] = useState(false);
+  const [tagInput, setTagInput] = useState('');
+
+  const submitTag = () => {
+    if (tagInput.trim()) onTag(tagInput);
+    closeTagInput();
+  };
+
+  const closeTagInput = () => {
+    setTagInput('');
+    setIsTagging(false);
+  };
 
   return (
     <div className="flex items-start gap-1 py-1">
@@ -93,6 +130,18 @@ export function ItemRow({
             <span className="text-hn-text-secondary text-[8pt]">
               ({item.domain})
             </span>
+            {item.tags.length > 0 && (
+              <span className="ml-1">
+                {item.tags.map((tag) => (
+                  <TagChip
+                    key={tag}
+                    tag={tag}
+                    onSelect={() => onSelectTag(tag)}
+                    onRemove={() => onUntag(tag)}
+                  />
+                ))}
+              </span>
+            )}
           </div>
         </div>
 
@@ -104,8 +153,35 @@ export function ItemRow({
             {formatRelativeTime(item.lastSavedAt)}
           </span>
 
+          {isResurfaced(item) && (
+            <span title="Was hidden, brought back when saved again">
+              (resurfaced)
+            </span>
+          )}
+
           {/* Actions */}
           <span>|</span>
+          {isTagging ? (
+            <input
+              type="text"
+              value={tagInput}
+              placeholder="tag name"
+              aria-label="New tag"
+              autoFocus
+              onChange={(e) => setTagInput(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') submitTag();
+                if (e.key === 'Escape') closeTagInput();
+              }}
+              onBlur={closeTagInput}
+              className="w-24 px-1 py-0 text-[8pt] text-hn-text bg-white dark:bg-gray-800 border border-gray-300 dark:border-gray-600 rounded-sm focus:outline-none"
+            />
+          ) : (
+            <button onClick={() => setIsTagging(true)} className="hover:underline cursor-pointer">
+              tag
+            </button>
+          )}
+          <span>|</span>
           {isHiddenView ? (
             <button
               onClick={onRestore}
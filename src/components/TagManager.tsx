@@ -0,0 +1,105 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/Button';
+import { useTags } from '@/hooks/useTags';
+import { useCaptureListener } from '@/hooks/useCaptureListener';
+import { renameTag, deleteTag } from '@/lib/db/tags';
+
+export function TagManager() {
+  const { tags, refresh } = useTags();
+  const [renaming, setRenaming] = useState<string | null>(null);
+  const [newName, setNewName] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  // Captures can add tags (from tab group titles)
+  useCaptureListener(refresh);
+
+  const startRename = (tag: string) => {
+    setRenaming(tag);
+    setNewName(tag);
+    setError(null);
+  };
+
+  const confirmRename = async () => {
+    if (!renaming) return;
+
+    try {
+      await renameTag(renaming, newName);
+      setRenaming(null);
+      setError(null);
+      await refresh();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to rename tag');
+    }
+  };
+
+  const removeTag = async (tag: string) => {
+    try {
+      await deleteTag(tag);
+      await refresh();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete tag');
+    }
+  };
+
+  return (
+    <div>
+      {tags.length === 0 ? (
+        <p className="text-sm text-hn-text-secondary">
+          No tags yet. Tag bookmarks from the new tab page.
+        </p>
+      ) : (
+        <ul className="text-sm">
+          {tags.map(({ tag, count }) => (
+            <li
+              key={tag}
+              className="flex items-center justify-between gap-2 py-1 border-b border-gray-100 dark:border-gray-700"
+            >
+              {renaming === tag ? (
+                <input
+                  type="text"
+                  value={newName}
+                  aria-label={`New name for ${tag}`}
+                  autoFocus
+                  onChange={(e) => setNewName(e.target.value)}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter') confirmRename();
+                    if (e.key === 'Escape') setRenaming(null);
+                  }}
+                  className="flex-1 min-w-0 border border-gray-300 dark:border-gray-600 rounded px-2 py-1 text-sm bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100 focus:outline-none focus:ring-2 focus:ring-hn-header"
+                />
+              ) : (
+                <span className="min-w-0 break-all">
+                  #{tag} <span className="text-hn-text-secondary">({count})</span>
+                </span>
+              )}
+              <span className="flex items-center gap-2 shrink-0">
+                {renaming === tag ? (
+                  <Button onClick={confirmRename} variant="secondary" size="sm">
+                    Save
+                  </Button>
+                ) : (
+                  <button
+                    onClick={() => startRename(tag)}
+                    className="text-hn-text-secondary hover:underline cursor-pointer"
+                  >
+                    rename
+                  </button>
+                )}
+                <button
+                  onClick={() => removeTag(tag)}
+                  className="text-hn-text-secondary hover:underline cursor-pointer"
+                >
+                  delete
+                </button>
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {error && (
+        <p className="text-sm text-red-600 dark:text-red-400 mt-2">{error}</p>
+      )}
+    </div>
+  );
+}
@@ -5,6 +5,12 @@ import type { ViewType } from '@/types';
 interface ViewContextValue {
   currentView: ViewType;
   setView: (view: ViewType) => void;
+  searchQuery: string; // Filters item views when not empty
+  setSearchQuery: (query: string) => void;
+  currentTag: string | null; // Limits item views to one tag's collection
+  setTag: (tag: string | null) => void;
+  currentGroup: string | null; // Tab group title whose items the groups view lists
+  setGroup: (group: string | null) => void;
   isLoading: boolean;
 }
 
@@ -12,6 +18,9 @@ const ViewContext = createContext<ViewContextValue | null>(null);
 
 export function ViewProvider({ children }: { children: React.ReactNode }) {
   const [currentView, setCurrentView] = useState<ViewType>('new');
+  const [searchQuery, setSearchQuery] = useState('');
+  const [currentTag, setCurrentTag] = useState<string | null>(null);
+  const [currentGroup, setCurrentGroup] = useState<string | null>(null);
   const [isLoading, setIsLoading] = useState(true);
 
   // Load default view from settings
@@ -27,10 +36,36 @@ export function ViewProvider({ children }: { children: React.ReactNode }) {
 
   const setView = useCallback((view: ViewType) => {
     setCurrentView(view);
+    setCurrentGroup(null); // The groups view opens on its list of groups
+  }, []);
+
+  const setTag = useCallback((tag: string | null) => {
+    setCurrentTag(tag);
+    // Captures and the list of groups aren't tagged, so a tag opens its items
+    setCurrentView((view) =>
+      tag && (view === 'captures' || (view === 'groups' && !currentGroup)) ? 'new' : view
+    );
+  }, [currentGroup]);
+
+  const setGroup = useCallback((group: string | null) => {
+    setCurrentGroup(group);
+    setCurrentView('groups');
   }, []);
 
   return (
-    <ViewContext.Provider value={{ currentView, setView, isLoading }}>
+    <ViewContext.Provider
+      value={{
+        currentView,
+        setView,
+        searchQuery,
+        setSearchQuery,
+        currentTag,
+        setTag,
+        currentGroup,
+        setGroup,
+        isLoading,
+      }}
+    >
       {children}
     </ViewContext.Provider>
   );
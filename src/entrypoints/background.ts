@@ -1,25 +1,221 @@
 import { captureAllTabs, isCaptureInProgress } from '@/lib/capture/capture';
 import { resetIcon, handleIconResetAlarm, ICON_RESET_ALARM } from '@/lib/capture/icons';
-import { initializeSettings } from '@/lib/settings';
+import { registerContextMenus, handleContextMenuClick } from '@/lib/capture/contextMenus';
+import { handleCommand } from '@/lib/capture/commands';
+import { syncAutoCaptureAlarm, handleAutoCaptureAlarm, AUTO_CAPTURE_ALARM } from '@/lib/capture/schedule';
+import { syncIdleHarvestAlarm, handleIdleHarvestAlarm, IDLE_HARVEST_ALARM } from '@/lib/capture/idleHarvest';
+import { scheduleTabThresholdCheck, handleThresholdNotificationButton } from '@/lib/capture/tabThreshold';
+import {
+  scheduleWindowSnapshotRefresh,
+  forgetClosedTab,
+  handleWindowRemoved,
+} from '@/lib/capture/windowSnapshots';
+import { ensureCaptureRecovered } from '@/lib/capture/journal';
+import { syncActionPopup } from '@/lib/capture/preview';
+import { syncUrlNormalization } from '@/lib/capture/normalization';
+import { handleIncognitoWindowRemoved } from '@/lib/capture/incognito';
+import { handleIncognitoMergeRequest, onIncognitoMergeRequest } from '@/lib/import/incognitoMerge';
+import { undoCapture } from '@/lib/capture/undo';
+import { restoreCapture } from '@/lib/capture/restore';
+import { initializeSettings, getSettings, onSettingsChange } from '@/lib/settings';
 import { getLastCapture } from '@/lib/db/captures';
+import { isIncognitoContext } from '@/lib/utils/incognito';
+import { browser, getAction, hasTabGroups } from '@/lib/browser';
 import type { Message } from '@/types';
 
 export default defineBackground(() => {
+  // In split incognito mode this worker may serve incognito windows, which
+  // only get manual captures (no schedules, idle harvest, tab limit, or window snapshots)
+  const incognito = isIncognitoContext();
+
+  // Clean up after a capture interrupted by the service worker stopping
+  ensureCaptureRecovered()
+    .then(async (recovered) => {
+      if (recovered) {
+        await browser.storage.local.set({ lastCaptureTime: Date.now() });
+      }
+    })
+    .catch((error) => {
+      console.error('Failed to recover interrupted capture:', error);
+    });
+
+  // Re-match saved items if the URL normalization rules changed while stopped
+  syncUrlNormalization()
+    .then(async (result) => {
+      if (result && result.itemsUpdated > 0) {
+        await browser.storage.local.set({ lastCaptureTime: Date.now() });
+      }
+    })
+    .catch((error) => {
+      console.error('Failed to re-normalize saved URLs:', error);
+    });
+
   // Initialize settings on install
-  chrome.runtime.onInstalled.addListener(async () => {
+  browser.runtime.onInstalled.addListener(async () => {
     await initializeSettings();
     await resetIcon();
+    await registerContextMenus();
+    const settings = await getSettings();
+    await syncActionPopup(settings);
+
+    if (!incognito) {
+      await syncAutoCaptureAlarm(settings);
+      await syncIdleHarvestAlarm(settings);
+      scheduleTabThresholdCheck();
+      scheduleWindowSnapshotRefresh();
+    }
+  });
+
+  // The toolbar popup set at runtime doesn't survive a browser restart
+  browser.runtime.onStartup.addListener(async () => {
+    await syncActionPopup(await getSettings());
+  });
+
+  // Keep the toolbar popup, saved URLs, alarms, the tab badge, and window snapshots in step with settings
+  onSettingsChange((settings) => {
+    syncActionPopup(settings).catch((error) => {
+      console.error('Failed to update toolbar popup:', error);
+    });
+    syncUrlNormalization()
+      .then(async (result) => {
+        if (result && result.itemsUpdated > 0) {
+          await browser.storage.local.set({ lastCaptureTime: Date.now() });
+        }
+      })
+      .catch((error) => {
+        console.error('Failed to re-normalize saved URLs:', error);
+      });
+
+    if (incognito) return;
+
+    scheduleTabThresholdCheck();
+    scheduleWindowSnapshotRefresh();
+    syncAutoCaptureAlarm(settings).catch((error) => {
+      console.error('Failed to update auto-capture alarm:', error);
+    });
+    syncIdleHarvestAlarm(settings).catch((error) => {
+      console.error('Failed to update idle-harvest alarm:', error);
+    });
   });
 
-  // Handle icon reset alarm (safety net for when service worker was terminated)
-  chrome.alarms.onAlarm.addListener(async (alarm) => {
+  browser.alarms.onAlarm.addListener(async (alarm) => {
+    // Handle icon reset alarm (safety net for when service worker was terminated)
     if (alarm.name === ICON_RESET_ALARM) {
       await handleIconResetAlarm();
     }
+
+    // Handle scheduled snapshot
+    if (alarm.name === AUTO_CAPTURE_ALARM && !incognito) {
+      try {
+        const result = await handleAutoCaptureAlarm();
+
+        if (result) {
+          await browser.storage.local.set({ lastCaptureTime: Date.now() });
+        }
+      } catch (error) {
+        console.error('Scheduled capture failed:', error);
+        await resetIcon();
+      }
+    }
+
+    // Handle idle-tab harvest
+    if (alarm.name === IDLE_HARVEST_ALARM && !incognito) {
+      try {
+        const result = await handleIdleHarvestAlarm();
+
+        if (result) {
+          await browser.storage.local.set({ lastCaptureTime: Date.now() });
+        }
+      } catch (error) {
+        console.error('Idle harvest failed:', error);
+        await resetIcon();
+      }
+    }
   });
 
-  // Handle toolbar icon click
-  chrome.action.onClicked.addListener(async () => {
+  if (incognito) {
+    // Clear the incognito backlog when the last incognito window closes (if enabled)
+    browser.windows.onRemoved.addListener(async () => {
+      try {
+        const cleared = await handleIncognitoWindowRemoved();
+
+        if (cleared) {
+          await browser.storage.local.set({ lastCaptureTime: Date.now() });
+        }
+      } catch (error) {
+        console.error('Failed to clear incognito backlog:', error);
+      }
+    });
+  } else {
+    // Merge the incognito backlog into this one when asked from an incognito window
+    // (also picks up a request made while this worker was stopped)
+    const mergeIncognitoBacklog = async () => {
+      try {
+        const result = await handleIncognitoMergeRequest();
+
+        if (result) {
+          await browser.storage.local.set({ lastCaptureTime: Date.now() });
+        }
+      } catch (error) {
+        console.error('Failed to merge incognito backlog:', error);
+      }
+    };
+    mergeIncognitoBacklog();
+    onIncognitoMergeRequest(mergeIncognitoBacklog);
+
+    // Watch tab changes for the tab threshold and window snapshots
+    browser.tabs.onCreated.addListener(() => {
+      scheduleTabThresholdCheck();
+      scheduleWindowSnapshotRefresh();
+    });
+    browser.tabs.onRemoved.addListener((tabId, removeInfo) => {
+      scheduleTabThresholdCheck();
+
+      // A closing window keeps its snapshot so its tabs can be saved
+      if (!removeInfo.isWindowClosing) {
+        forgetClosedTab(tabId, removeInfo.windowId).catch((error) => {
+          console.error('Failed to update window snapshot:', error);
+        });
+      }
+    });
+    browser.tabs.onUpdated.addListener(() => scheduleWindowSnapshotRefresh());
+    browser.tabs.onAttached.addListener(() => scheduleWindowSnapshotRefresh());
+    browser.tabs.onDetached.addListener(() => scheduleWindowSnapshotRefresh());
+    if (hasTabGroups()) {
+      browser.tabGroups.onUpdated.addListener(() => scheduleWindowSnapshotRefresh());
+    }
+
+    // Save a window's tabs when it closes (if enabled)
+    browser.windows.onRemoved.addListener(async (windowId) => {
+      try {
+        const result = await handleWindowRemoved(windowId);
+
+        if (result) {
+          await browser.storage.local.set({ lastCaptureTime: Date.now() });
+        }
+      } catch (error) {
+        console.error('Window-closed capture failed:', error);
+        await resetIcon();
+      }
+    });
+
+    // Handle "Save & close all" on the tab threshold notification
+    browser.notifications.onButtonClicked.addListener(async (notificationId, buttonIndex) => {
+      try {
+        const result = await handleThresholdNotificationButton(notificationId, buttonIndex);
+
+        if (result) {
+          await browser.storage.local.set({ lastCaptureTime: Date.now() });
+        }
+      } catch (error) {
+        console.error('Threshold capture failed:', error);
+        await resetIcon();
+      }
+    });
+  }
+
+  // Handle toolbar icon click (only fires when the preview popup is off)
+  getAction().onClicked.addListener(async () => {
     if (isCaptureInProgress()) {
       return;
     }
@@ -28,15 +224,51 @@ export default defineBackground(() => {
       await captureAllTabs();
 
       // Signal capture complete via storage (for live refresh in new tab pages)
-      await chrome.storage.local.set({ lastCaptureTime: Date.now() });
+      await browser.storage.local.set({ lastCaptureTime: Date.now() });
     } catch (error) {
       console.error('Capture failed:', error);
       await resetIcon();
     }
   });
 
+  // Handle context menu entries (save page, link, or window)
+  browser.contextMenus.onClicked.addListener(async (info, tab) => {
+    if (isCaptureInProgress()) {
+      return;
+    }
+
+    try {
+      const result = await handleContextMenuClick(info, tab);
+
+      if (result) {
+        await browser.storage.local.set({ lastCaptureTime: Date.now() });
+      }
+    } catch (error) {
+      console.error('Context menu capture failed:', error);
+      await resetIcon();
+    }
+  });
+
+  // Handle keyboard shortcuts (capture variants)
+  browser.commands.onCommand.addListener(async (command, tab) => {
+    if (isCaptureInProgress()) {
+      return;
+    }
+
+    try {
+      const result = await handleCommand(command, tab);
+
+      if (result) {
+        await browser.storage.local.set({ lastCaptureTime: Date.now() });
+      }
+    } catch (error) {
+      console.error('Command capture failed:', error);
+      await resetIcon();
+    }
+  });
+
   // Handle messages from new tab page
-  chrome.runtime.onMessage.addListener(
+  browser.runtime.onMessage.addListener(
     (message: Message, _sender, sendResponse): boolean => {
       if (message.type === 'CAPTURE_ALL_TABS') {
         if (isCaptureInProgress()) {
@@ -45,8 +277,10 @@ export default defineBackground(() => {
         }
 
         // Async handler
-        captureAllTabs()
-          .then((result) => {
+        captureAllTabs({ scope: message.scope, closeTabs: message.closeTabs, name: message.name })
+          .then(async (result) => {
+            // Signal capture complete via storage (for live refresh in other pages)
+            await browser.storage.local.set({ lastCaptureTime: Date.now() });
             sendResponse(result);
           })
           .catch((error) => {
@@ -71,7 +305,41 @@ export default defineBackground(() => {
         return true;
       }
 
+      if (message.type === 'UNDO_CAPTURE') {
+        if (isCaptureInProgress()) {
+          sendResponse({ error: 'Capture already in progress' });
+          return false;
+        }
+
+        undoCapture(message.captureId)
+          .then(async (result) => {
+            // Signal change via storage (for live refresh in new tab pages)
+            await browser.storage.local.set({ lastCaptureTime: Date.now() });
+            sendResponse(result);
+          })
+          .catch((error) => {
+            console.error('Undo failed:', error);
+            sendResponse({ error: error.message });
+          });
+
+        return true;
+      }
+
+      if (message.type === 'RESTORE_CAPTURE') {
+        restoreCapture(message.captureId)
+          .then((result) => {
+            sendResponse(result);
+          })
+          .catch((error) => {
+            console.error('Restore failed:', error);
+            sendResponse({ error: error.message });
+          });
+
+        return true;
+      }
+
       return false;
     }
   );
+
 });
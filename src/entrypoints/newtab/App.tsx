@@ -1,16 +1,56 @@
+import { useState } from 'react';
 import { ViewProvider, useView } from '@/contexts/ViewContext';
 import { Header } from '@/components/Header';
 import { ItemList } from '@/components/ItemList';
+import { CaptureList } from '@/components/CaptureList';
+import { GroupList } from '@/components/GroupList';
+import { CaptureToast } from '@/components/CaptureToast';
 import { ItemSkeleton } from '@/components/ItemSkeleton';
 import { EmptyState } from '@/components/EmptyState';
 import { ErrorState } from '@/components/ErrorState';
+import { ConfirmationModal } from '@/components/ui/ConfirmationModal';
 import { useItems } from '@/hooks/useItems';
+import { useCaptures } from '@/hooks/useCaptures';
+import { useCapturedGroups } from '@/hooks/useCapturedGroups';
+import { useUndoCapture } from '@/hooks/useUndoCapture';
+import { useRestoreCapture } from '@/hooks/useRestoreCapture';
 import { useDarkMode } from '@/hooks/useDarkMode';
 import { useCaptureListener } from '@/hooks/useCaptureListener';
 import { useSettings } from '@/hooks/useSettings';
+import { getTabGroupColor } from '@/lib/utils/tabGroups';
+import type { ItemViewType } from '@/types';
 
 function NewTabContent({ showFavicons }: { showFavicons: boolean }) {
   const { currentView, isLoading: viewLoading } = useView();
+
+  // Wait for view settings to load
+  if (viewLoading) {
+    return (
+      <main className="py-2">
+        <ItemSkeleton count={10} />
+      </main>
+    );
+  }
+
+  if (currentView === 'captures') {
+    return <CapturesContent showFavicons={showFavicons} />;
+  }
+
+  if (currentView === 'groups') {
+    return <GroupsContent showFavicons={showFavicons} />;
+  }
+
+  return <ItemsContent view={currentView} showFavicons={showFavicons} />;
+}
+
+interface ItemsContentProps {
+  view: ItemViewType;
+  group?: string | null; // Limits the list to items captured in this tab group
+  showFavicons: boolean;
+}
+
+function ItemsContent({ view, group = null, showFavicons }: ItemsContentProps) {
+  const { searchQuery, currentTag, setTag } = useView();
   const {
     items,
     isLoading,
@@ -22,13 +62,23 @@ function NewTabContent({ showFavicons }: { showFavicons: boolean }) {
     unfavorite,
     hide,
     unhide,
-  } = useItems(currentView);
+    tag,
+    untag,
+  } = useItems(view, searchQuery, currentTag, group);
+
+  // Describes the list in empty-result messages
+  const listName = group ? `items from "${group}"` : `${view} items`;
 
   // Listen for capture completion and refresh the list
   useCaptureListener(refresh);
 
-  // Wait for view settings to load
-  if (viewLoading) {
+  // Error state
+  if (error && items.length === 0) {
+    return <ErrorState message={error} onRetry={refresh} />;
+  }
+
+  // Loading state (initial load)
+  if (isLoading && items.length === 0) {
     return (
       <main className="py-2">
         <ItemSkeleton count={10} />
@@ -36,16 +86,35 @@ function NewTabContent({ showFavicons }: { showFavicons: boolean }) {
     );
   }
 
-  // Error state
-  if (error && items.length === 0) {
-    return <ErrorState message={error} onRetry={refresh} />;
+  // No search results
+  if (!isLoading && items.length === 0 && searchQuery) {
+    return (
+      <main className="py-2">
+        <p className="px-2 py-8 text-center text-hn-text-secondary">
+          No {listName}{currentTag && ` tagged #${currentTag}`} match "{searchQuery}".
+        </p>
+      </main>
+    );
   }
 
-  // Loading state (initial load)
-  if (isLoading && items.length === 0) {
+  // Empty tag collection
+  if (!isLoading && items.length === 0 && currentTag) {
     return (
       <main className="py-2">
-        <ItemSkeleton count={10} />
+        <p className="px-2 py-8 text-center text-hn-text-secondary">
+          No {listName} tagged #{currentTag}.
+        </p>
+      </main>
+    );
+  }
+
+  // Group whose items are all hidden
+  if (!isLoading && items.length === 0 && group) {
+    return (
+      <main className="py-2">
+        <p className="px-2 py-8 text-center text-hn-text-secondary">
+          No visible items from "{group}".
+        </p>
       </main>
     );
   }
@@ -60,7 +129,7 @@ function NewTabContent({ showFavicons }: { showFavicons: boolean }) {
     <main className="py-2">
       <ItemList
         items={items}
-        view={currentView}
+        view={view}
         showFavicons={showFavicons}
         isLoading={isLoading}
         hasMore={hasMore}
@@ -69,6 +138,121 @@ function NewTabContent({ showFavicons }: { showFavicons: boolean }) {
         onUnfavorite={unfavorite}
         onHide={hide}
         onRestore={unhide}
+        onTag={tag}
+        onUntag={untag}
+        onSelectTag={setTag}
+      />
+    </main>
+  );
+}
+
+function GroupsContent({ showFavicons }: { showFavicons: boolean }) {
+  const { currentGroup, setGroup } = useView();
+  const { groups, isLoading, error, refresh } = useCapturedGroups();
+
+  // Listen for capture completion and refresh the list
+  useCaptureListener(refresh);
+
+  if (currentGroup) {
+    const group = groups.find((g) => g.title === currentGroup);
+
+    return (
+      <>
+        <div className="px-2 pt-2 text-[8pt] text-hn-text-secondary flex items-center gap-1">
+          <button onClick={() => setGroup(null)} className="hover:underline cursor-pointer">
+            all groups
+          </button>
+          <span>/</span>
+          <span className="font-bold" style={{ color: getTabGroupColor(group?.color ?? null) }}>
+            {currentGroup}
+          </span>
+        </div>
+        <ItemsContent view="new" group={currentGroup} showFavicons={showFavicons} />
+      </>
+    );
+  }
+
+  // Error state
+  if (error && groups.length === 0) {
+    return <ErrorState message={error} onRetry={refresh} />;
+  }
+
+  return (
+    <main className="py-2">
+      {isLoading && groups.length === 0 ? (
+        <ItemSkeleton count={10} />
+      ) : groups.length === 0 ? (
+        <p className="px-2 py-8 text-center text-hn-text-secondary">
+          No tab groups captured yet. Name a tab group in Chrome and capture it to see it here.
+        </p>
+      ) : (
+        <GroupList groups={groups} onSelect={setGroup} />
+      )}
+    </main>
+  );
+}
+
+function CapturesContent({ showFavicons }: { showFavicons: boolean }) {
+  const [includeAutomatic, setIncludeAutomatic] = useState(true);
+  const [undoCaptureId, setUndoCaptureId] = useState<string | null>(null);
+  const { captures, isLoading, error, hasMore, loadMore, refresh } = useCaptures(includeAutomatic);
+  const { undo, isUndoing, error: undoError } = useUndoCapture();
+  const { restore, error: restoreError } = useRestoreCapture();
+
+  // Listen for capture completion and refresh the list
+  useCaptureListener(refresh);
+
+  const confirmUndo = async () => {
+    if (!undoCaptureId) return;
+    await undo(undoCaptureId);
+    setUndoCaptureId(null);
+  };
+
+  // Error state
+  if (error && captures.length === 0) {
+    return <ErrorState message={error} onRetry={refresh} />;
+  }
+
+  return (
+    <main className="py-2">
+      <div className="px-2 pb-1 text-[8pt] text-hn-text-secondary flex items-center gap-2">
+        <label className="flex items-center gap-1 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={includeAutomatic}
+            onChange={(e) => setIncludeAutomatic(e.target.checked)}
+          />
+          show automatic captures
+        </label>
+        {(undoError || restoreError) && (
+          <span className="text-destructive">{undoError || restoreError}</span>
+        )}
+      </div>
+
+      {isLoading && captures.length === 0 ? (
+        <ItemSkeleton count={10} />
+      ) : captures.length === 0 ? (
+        <p className="px-2 py-8 text-center text-hn-text-secondary">No captures yet.</p>
+      ) : (
+        <CaptureList
+          captures={captures}
+          showFavicons={showFavicons}
+          isLoading={isLoading}
+          hasMore={hasMore}
+          onLoadMore={loadMore}
+          onUndo={setUndoCaptureId}
+          onRestore={restore}
+        />
+      )}
+
+      <ConfirmationModal
+        isOpen={undoCaptureId !== null}
+        title="Undo Capture"
+        message="Undo this capture? Items it added will be removed, save counts reverted, and any tabs it closed reopened."
+        confirmLabel="Undo"
+        isLoading={isUndoing}
+        onConfirm={confirmUndo}
+        onCancel={() => setUndoCaptureId(null)}
       />
     </main>
   );
@@ -85,6 +269,7 @@ export default function App() {
           <Header />
           <NewTabContent showFavicons={settings.showFavicons} />
         </div>
+        <CaptureToast />
       </div>
     </ViewProvider>
   );
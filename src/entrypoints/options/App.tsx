@@ -3,11 +3,27 @@ import { useSettings } from '@/hooks/useSettings';
 import { useDarkMode } from '@/hooks/useDarkMode';
 import { useImportExport } from '@/hooks/useImportExport';
 import { useDeleteAllData } from '@/hooks/useDeleteAllData';
+import { useReapplyTitleCleanup } from '@/hooks/useReapplyTitleCleanup';
+import { useTagGroupTitles } from '@/hooks/useTagGroupTitles';
+import { useIncognitoMerge } from '@/hooks/useIncognitoMerge';
 import { Toggle } from '@/components/ui/Toggle';
 import { Select } from '@/components/ui/Select';
 import { Button } from '@/components/ui/Button';
 import { ConfirmationModal } from '@/components/ui/ConfirmationModal';
-import type { ViewType, DarkMode } from '@/types';
+import { ExclusionRuleEditor } from '@/components/ExclusionRuleEditor';
+import { TitleRuleEditor } from '@/components/TitleRuleEditor';
+import { QueryParamRuleEditor } from '@/components/QueryParamRuleEditor';
+import { TagManager } from '@/components/TagManager';
+import { isIncognitoContext } from '@/lib/utils/incognito';
+import { cn } from '@/lib/utils/cn';
+import type {
+  ViewType,
+  DarkMode,
+  ActionMode,
+  AutoCaptureSchedule,
+  TabThresholdAction,
+  UrlNormalizationRules,
+} from '@/types';
 
 const VIEW_OPTIONS: { value: ViewType; label: string }[] = [
   { value: 'new', label: 'New (most recent)' },
@@ -16,6 +32,23 @@ const VIEW_OPTIONS: { value: ViewType; label: string }[] = [
   { value: 'frequent', label: 'Frequent (most saved)' },
 ];
 
+const ACTION_MODE_OPTIONS: { value: ActionMode; label: string }[] = [
+  { value: 'capture', label: 'Save instantly' },
+  { value: 'preview', label: 'Preview first' },
+];
+
+const AUTO_CAPTURE_OPTIONS: { value: AutoCaptureSchedule; label: string }[] = [
+  { value: 'off', label: 'Off' },
+  { value: 'interval', label: 'Every few hours' },
+  { value: 'daily', label: 'Daily' },
+];
+
+const TAB_THRESHOLD_OPTIONS: { value: TabThresholdAction; label: string }[] = [
+  { value: 'off', label: 'Off' },
+  { value: 'notify', label: 'Notify me' },
+  { value: 'capture', label: 'Save all tabs' },
+];
+
 const DARK_MODE_OPTIONS: { value: DarkMode; label: string }[] = [
   { value: 'system', label: 'System' },
   { value: 'light', label: 'Light' },
@@ -58,6 +91,30 @@ export default function App() {
     clearResult: clearDeleteResult,
   } = useDeleteAllData();
 
+  // Re-apply title cleanup state
+  const {
+    reapply: reapplyTitles,
+    isReapplying,
+    updatedCount: titlesUpdated,
+    error: reapplyError,
+  } = useReapplyTitleCleanup();
+
+  // Tag past tab group captures state
+  const {
+    tagPastGroups,
+    isTagging,
+    taggedCount,
+    error: tagGroupsError,
+  } = useTagGroupTitles();
+
+  // Merge incognito backlog state
+  const {
+    merge: mergeIncognito,
+    isMerging,
+    result: mergeResult,
+    error: mergeError,
+  } = useIncognitoMerge();
+
   // Combined message display (import/export or delete)
   const displayMessage = deleteResult?.success
     ? `Deleted ${deleteResult.itemsDeleted} bookmarks`
@@ -75,6 +132,10 @@ export default function App() {
     clearDeleteResult();
   };
 
+  const updateUrlNormalization = (updates: Partial<UrlNormalizationRules>) => {
+    updateSetting('urlNormalization', { ...settings.urlNormalization, ...updates });
+  };
+
   if (isLoading) {
     return (
       <div className="min-h-screen bg-hn-bg font-[family-name:var(--font-hn)] p-6">
@@ -87,7 +148,9 @@ export default function App() {
     <div className="min-h-screen bg-hn-bg font-[family-name:var(--font-hn)] text-hn-text">
       {/* Header */}
       <header className="bg-hn-header text-white px-4 py-2">
-        <h1 className="text-lg font-bold">bmbl Settings</h1>
+        <h1 className="text-lg font-bold">
+          bmbl Settings{isIncognitoContext() && ' (incognito)'}
+        </h1>
       </header>
 
       <main className="max-w-2xl mx-auto p-6">
@@ -97,6 +160,25 @@ export default function App() {
             Behavior
           </h2>
 
+          {/* Toolbar button setting */}
+          <div className="flex items-start justify-between py-3 border-b border-gray-100 dark:border-gray-700">
+            <div className="flex-1 pr-4">
+              <label htmlFor="actionMode" className="font-medium">
+                Toolbar button
+              </label>
+              <p className="text-sm text-hn-text-secondary mt-1">
+                Save all tabs with one click, or preview them first to untick
+                tabs, choose whether to close them, and name the capture.
+              </p>
+            </div>
+            <Select
+              id="actionMode"
+              value={settings.actionMode}
+              onChange={(value) => updateSetting('actionMode', value)}
+              options={ACTION_MODE_OPTIONS}
+            />
+          </div>
+
           {/* Auto-close setting */}
           <div className="flex items-start justify-between py-3 border-b border-gray-100 dark:border-gray-700">
             <div className="flex-1 pr-4">
@@ -105,7 +187,7 @@ export default function App() {
               </label>
               <p className="text-sm text-hn-text-secondary mt-1">
                 When enabled, bmbl will close saved tabs after capturing them.
-                Pinned tabs are never closed.
+                Pinned tabs are never closed, and saving a single page or link leaves it open.
               </p>
             </div>
             <Toggle
@@ -115,6 +197,24 @@ export default function App() {
             />
           </div>
 
+          {/* Resurface hidden setting */}
+          <div className="flex items-start justify-between py-3 border-b border-gray-100 dark:border-gray-700">
+            <div className="flex-1 pr-4">
+              <label htmlFor="resurfaceHidden" className="font-medium cursor-pointer">
+                Resurface hidden items on recapture
+              </label>
+              <p className="text-sm text-hn-text-secondary mt-1">
+                When you save a hidden bookmark again, bring it back and mark it as resurfaced.
+                Captures that don't count as saves, like window-close records, never do.
+              </p>
+            </div>
+            <Toggle
+              id="resurfaceHidden"
+              checked={settings.resurfaceHiddenOnRecapture}
+              onChange={(value) => updateSetting('resurfaceHiddenOnRecapture', value)}
+            />
+          </div>
+
           {/* Default view setting */}
           <div className="flex items-start justify-between py-3">
             <div className="flex-1 pr-4">
@@ -134,6 +234,503 @@ export default function App() {
           </div>
         </section>
 
+        {/* Exclusions Section */}
+        <section className="mb-8">
+          <h2 className="text-base font-bold mb-4 border-b border-gray-300 dark:border-gray-600 pb-2">
+            Exclusions
+          </h2>
+          <p className="text-sm text-hn-text-secondary mb-3">
+            Tabs matching these rules are never captured or closed,
+            e.g. localhost dev servers, mail, or calendar.
+          </p>
+          <ExclusionRuleEditor
+            rules={settings.exclusionRules}
+            onChange={(rules) => updateSetting('exclusionRules', rules)}
+          />
+        </section>
+
+        {/* Titles Section */}
+        <section className="mb-8">
+          <h2 className="text-base font-bold mb-4 border-b border-gray-300 dark:border-gray-600 pb-2">
+            Titles
+          </h2>
+
+          {/* Built-in cleanup setting */}
+          <div className="flex items-start justify-between py-3 border-b border-gray-100 dark:border-gray-700">
+            <div className="flex-1 pr-4">
+              <label htmlFor="cleanTitles" className="font-medium cursor-pointer">
+                Clean up titles
+              </label>
+              <p className="text-sm text-hn-text-secondary mt-1">
+                Remove unread counts like "(3) Inbox" and site names like " - YouTube"
+                from saved titles.
+              </p>
+            </div>
+            <Toggle
+              id="cleanTitles"
+              checked={settings.cleanTitles}
+              onChange={(value) => updateSetting('cleanTitles', value)}
+            />
+          </div>
+
+          {/* Custom rules */}
+          <div className="py-3 border-b border-gray-100 dark:border-gray-700">
+            <p className="font-medium">Custom rules</p>
+            <p className="text-sm text-hn-text-secondary mt-1 mb-3">
+              Text matching these regular expressions (case-insensitive) is removed from titles.
+            </p>
+            <TitleRuleEditor
+              rules={settings.titleRules}
+              onChange={(rules) => updateSetting('titleRules', rules)}
+            />
+          </div>
+
+          {/* Re-apply to saved items */}
+          <div className="flex items-start justify-between py-3">
+            <div className="flex-1 pr-4">
+              <p className="font-medium">Update saved titles</p>
+              <p className="text-sm text-hn-text-secondary mt-1">
+                New rules apply to future captures. Re-clean existing bookmarks from
+                their original titles to apply them now.
+              </p>
+              {titlesUpdated !== null && (
+                <p className="text-sm text-hn-text-secondary mt-1">
+                  Updated {titlesUpdated} title{titlesUpdated !== 1 ? 's' : ''}.
+                </p>
+              )}
+              {reapplyError && (
+                <p className="text-sm text-red-600 dark:text-red-400 mt-1">{reapplyError}</p>
+              )}
+            </div>
+            <Button
+              variant="secondary"
+              size="sm"
+              onClick={() => reapplyTitles(settings)}
+              disabled={isReapplying}
+            >
+              {isReapplying ? 'Updating...' : 'Re-apply'}
+            </Button>
+          </div>
+        </section>
+
+        {/* Tags Section */}
+        <section className="mb-8">
+          <h2 className="text-base font-bold mb-4 border-b border-gray-300 dark:border-gray-600 pb-2">
+            Tags
+          </h2>
+          <p className="text-sm text-hn-text-secondary mb-3">
+            Rename a tag to merge it into another, or delete it from every bookmark.
+          </p>
+
+          {/* Tab group tags setting */}
+          <div className="flex items-start justify-between py-3 border-b border-gray-100 dark:border-gray-700">
+            <div className="flex-1 pr-4">
+              <label htmlFor="tagGroupTitles" className="font-medium cursor-pointer">
+                Tag bookmarks with their tab group
+              </label>
+              <p className="text-sm text-hn-text-secondary mt-1">
+                Tabs captured in a named tab group get the group's title as a tag, so the
+                set stays browsable after the group is closed.
+              </p>
+            </div>
+            <Toggle
+              id="tagGroupTitles"
+              checked={settings.tagGroupTitles}
+              onChange={(value) => updateSetting('tagGroupTitles', value)}
+            />
+          </div>
+
+          {/* Tag past tab groups */}
+          <div className="flex items-start justify-between py-3 border-b border-gray-100 dark:border-gray-700">
+            <div className="flex-1 pr-4">
+              <p className="font-medium">Tag past tab groups</p>
+              <p className="text-sm text-hn-text-secondary mt-1">
+                Add tab group tags to bookmarks from earlier captures.
+              </p>
+              {taggedCount !== null && (
+                <p className="text-sm text-hn-text-secondary mt-1">
+                  Tagged {taggedCount} bookmark{taggedCount !== 1 ? 's' : ''}.
+                </p>
+              )}
+              {tagGroupsError && (
+                <p className="text-sm text-red-600 dark:text-red-400 mt-1">{tagGroupsError}</p>
+              )}
+            </div>
+            <Button
+              variant="secondary"
+              size="sm"
+              onClick={tagPastGroups}
+              disabled={isTagging}
+            >
+              {isTagging ? 'Tagging...' : 'Tag'}
+            </Button>
+          </div>
+
+          <TagManager />
+        </section>
+
+        {/* URL Matching Section */}
+        <section className="mb-8">
+          <h2 className="text-base font-bold mb-4 border-b border-gray-300 dark:border-gray-600 pb-2">
+            URL Matching
+          </h2>
+          <p className="text-sm text-hn-text-secondary mb-3">
+            Decide which URLs count as the same bookmark. Saved bookmarks are re-matched
+            automatically when these change, and bookmarks that now match are merged.
+          </p>
+
+          {/* Tracking parameters setting */}
+          <div className="flex items-start justify-between py-3 border-b border-gray-100 dark:border-gray-700">
+            <div className="flex-1 pr-4">
+              <label htmlFor="stripTrackingParams" className="font-medium cursor-pointer">
+                Ignore tracking parameters
+              </label>
+              <p className="text-sm text-hn-text-secondary mt-1">
+                Treat links that differ only by utm_*, fbclid, gclid, and similar parameters as the same.
+              </p>
+            </div>
+            <Toggle
+              id="stripTrackingParams"
+              checked={settings.urlNormalization.stripTrackingParams}
+              onChange={(value) => updateUrlNormalization({ stripTrackingParams: value })}
+            />
+          </div>
+
+          {/* www setting */}
+          <div className="flex items-start justify-between py-3 border-b border-gray-100 dark:border-gray-700">
+            <div className="flex-1 pr-4">
+              <label htmlFor="foldWww" className="font-medium cursor-pointer">
+                Ignore www.
+              </label>
+              <p className="text-sm text-hn-text-secondary mt-1">
+                Treat www.example.com and example.com as the same site.
+              </p>
+            </div>
+            <Toggle
+              id="foldWww"
+              checked={settings.urlNormalization.foldWww}
+              onChange={(value) => updateUrlNormalization({ foldWww: value })}
+            />
+          </div>
+
+          {/* Scheme setting */}
+          <div className="flex items-start justify-between py-3 border-b border-gray-100 dark:border-gray-700">
+            <div className="flex-1 pr-4">
+              <label htmlFor="foldScheme" className="font-medium cursor-pointer">
+                Ignore http vs https
+              </label>
+              <p className="text-sm text-hn-text-secondary mt-1">
+                Treat http:// and https:// links to the same page as the same.
+              </p>
+            </div>
+            <Toggle
+              id="foldScheme"
+              checked={settings.urlNormalization.foldScheme}
+              onChange={(value) => updateUrlNormalization({ foldScheme: value })}
+            />
+          </div>
+
+          {/* Per-site rules */}
+          <div className="py-3">
+            <p className="font-medium">Per-site parameters</p>
+            <p className="text-sm text-hn-text-secondary mt-1 mb-3">
+              Query parameters to ignore on a site and its subdomains,
+              e.g. the timestamp "t" on youtube.com.
+            </p>
+            <QueryParamRuleEditor
+              rules={settings.urlNormalization.paramRules}
+              onChange={(paramRules) => updateUrlNormalization({ paramRules })}
+            />
+          </div>
+        </section>
+
+        {/* Automatic Snapshots Section */}
+        <section className="mb-8">
+          <h2 className="text-base font-bold mb-4 border-b border-gray-300 dark:border-gray-600 pb-2">
+            Automatic Snapshots
+          </h2>
+
+          {/* Schedule setting */}
+          <div className="flex items-start justify-between py-3 border-b border-gray-100 dark:border-gray-700">
+            <div className="flex-1 pr-4">
+              <label htmlFor="autoCaptureSchedule" className="font-medium">
+                Snapshot schedule
+              </label>
+              <p className="text-sm text-hn-text-secondary mt-1">
+                Periodically save all open tabs in the background.
+                Snapshots never close tabs.
+              </p>
+            </div>
+            <Select
+              id="autoCaptureSchedule"
+              value={settings.autoCaptureSchedule}
+              onChange={(value) => updateSetting('autoCaptureSchedule', value)}
+              options={AUTO_CAPTURE_OPTIONS}
+            />
+          </div>
+
+          {/* Interval setting */}
+          {settings.autoCaptureSchedule === 'interval' && (
+            <div className="flex items-start justify-between py-3 border-b border-gray-100 dark:border-gray-700">
+              <div className="flex-1 pr-4">
+                <label htmlFor="autoCaptureIntervalHours" className="font-medium">
+                  Hours between snapshots
+                </label>
+              </div>
+              <input
+                id="autoCaptureIntervalHours"
+                type="number"
+                min={1}
+                max={168}
+                value={settings.autoCaptureIntervalHours}
+                onChange={(e) => {
+                  const hours = parseInt(e.target.value, 10);
+                  if (hours >= 1) updateSetting('autoCaptureIntervalHours', hours);
+                }}
+                className="w-20 border border-gray-300 dark:border-gray-600 rounded px-2 py-1 text-sm bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100 focus:outline-none focus:ring-2 focus:ring-hn-header"
+              />
+            </div>
+          )}
+
+          {/* Daily time setting */}
+          {settings.autoCaptureSchedule === 'daily' && (
+            <div className="flex items-start justify-between py-3 border-b border-gray-100 dark:border-gray-700">
+              <div className="flex-1 pr-4">
+                <label htmlFor="autoCaptureDailyTime" className="font-medium">
+                  Time of day
+                </label>
+              </div>
+              <input
+                id="autoCaptureDailyTime"
+                type="time"
+                value={settings.autoCaptureDailyTime}
+                onChange={(e) => {
+                  if (e.target.value) updateSetting('autoCaptureDailyTime', e.target.value);
+                }}
+                className="border border-gray-300 dark:border-gray-600 rounded px-2 py-1 text-sm bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100 focus:outline-none focus:ring-2 focus:ring-hn-header"
+              />
+            </div>
+          )}
+
+          {/* Counts toward saves setting */}
+          <div className="flex items-start justify-between py-3 border-b border-gray-100 dark:border-gray-700">
+            <div className="flex-1 pr-4">
+              <label htmlFor="autoCaptureCountsSaves" className="font-medium cursor-pointer">
+                Count snapshots as saves
+              </label>
+              <p className="text-sm text-hn-text-secondary mt-1">
+                When enabled, snapshots increase save counts and affect the
+                frequent view. New items are always added.
+              </p>
+            </div>
+            <Toggle
+              id="autoCaptureCountsSaves"
+              checked={settings.autoCaptureCountsSaves}
+              onChange={(value) => updateSetting('autoCaptureCountsSaves', value)}
+            />
+          </div>
+
+          {/* Save on window close setting */}
+          <div className="flex items-start justify-between py-3">
+            <div className="flex-1 pr-4">
+              <label htmlFor="saveOnWindowClose" className="font-medium cursor-pointer">
+                Save tabs when a window closes
+              </label>
+              <p className="text-sm text-hn-text-secondary mt-1">
+                Keep track of each window's tabs and save them when the window
+                is closed, so they can be reviewed or restored from captures.
+                These never count as saves.
+              </p>
+            </div>
+            <Toggle
+              id="saveOnWindowClose"
+              checked={settings.saveOnWindowClose}
+              onChange={(value) => updateSetting('saveOnWindowClose', value)}
+            />
+          </div>
+        </section>
+
+        {/* Idle Tabs Section */}
+        <section className="mb-8">
+          <h2 className="text-base font-bold mb-4 border-b border-gray-300 dark:border-gray-600 pb-2">
+            Idle Tabs
+          </h2>
+
+          {/* Idle harvest setting */}
+          <div className="flex items-start justify-between py-3 border-b border-gray-100 dark:border-gray-700">
+            <div className="flex-1 pr-4">
+              <label htmlFor="idleHarvestEnabled" className="font-medium cursor-pointer">
+                Save and close idle tabs
+              </label>
+              <p className="text-sm text-hn-text-secondary mt-1">
+                Regularly save tabs you haven't used in a while, then close them.
+                Pinned, audible, and active tabs are never closed.
+              </p>
+            </div>
+            <Toggle
+              id="idleHarvestEnabled"
+              checked={settings.idleHarvestEnabled}
+              onChange={(value) => updateSetting('idleHarvestEnabled', value)}
+            />
+          </div>
+
+          {/* Idle threshold setting */}
+          <div className="flex items-start justify-between py-3">
+            <div className="flex-1 pr-4">
+              <label htmlFor="idleHarvestThresholdHours" className="font-medium">
+                Idle after (hours)
+              </label>
+              <p className="text-sm text-hn-text-secondary mt-1">
+                How long a tab must go unused before it is harvested.
+              </p>
+            </div>
+            <input
+              id="idleHarvestThresholdHours"
+              type="number"
+              min={1}
+              max={720}
+              value={settings.idleHarvestThresholdHours}
+              disabled={!settings.idleHarvestEnabled}
+              onChange={(e) => {
+                const hours = parseInt(e.target.value, 10);
+                if (hours >= 1) updateSetting('idleHarvestThresholdHours', hours);
+              }}
+              className="w-20 border border-gray-300 dark:border-gray-600 rounded px-2 py-1 text-sm bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100 focus:outline-none focus:ring-2 focus:ring-hn-header disabled:opacity-50"
+            />
+          </div>
+        </section>
+
+        {/* Tab Limit Section */}
+        <section className="mb-8">
+          <h2 className="text-base font-bold mb-4 border-b border-gray-300 dark:border-gray-600 pb-2">
+            Tab Limit
+          </h2>
+
+          {/* Threshold action setting */}
+          <div className="flex items-start justify-between py-3 border-b border-gray-100 dark:border-gray-700">
+            <div className="flex-1 pr-4">
+              <label htmlFor="tabThresholdAction" className="font-medium">
+                When too many tabs are open
+              </label>
+              <p className="text-sm text-hn-text-secondary mt-1">
+                Notify you with a "Save &amp; close all" button, or save all tabs
+                automatically. The toolbar badge shows your tab count as you get close.
+              </p>
+            </div>
+            <Select
+              id="tabThresholdAction"
+              value={settings.tabThresholdAction}
+              onChange={(value) => updateSetting('tabThresholdAction', value)}
+              options={TAB_THRESHOLD_OPTIONS}
+            />
+          </div>
+
+          {/* Threshold setting */}
+          <div className="flex items-start justify-between py-3">
+            <div className="flex-1 pr-4">
+              <label htmlFor="tabThreshold" className="font-medium">
+                Tab limit
+              </label>
+              <p className="text-sm text-hn-text-secondary mt-1">
+                Internal pages and excluded tabs don't count.
+              </p>
+            </div>
+            <input
+              id="tabThreshold"
+              type="number"
+              min={5}
+              max={1000}
+              value={settings.tabThreshold}
+              disabled={settings.tabThresholdAction === 'off'}
+              onChange={(e) => {
+                const count = parseInt(e.target.value, 10);
+                if (count >= 5) updateSetting('tabThreshold', count);
+              }}
+              className="w-20 border border-gray-300 dark:border-gray-600 rounded px-2 py-1 text-sm bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100 focus:outline-none focus:ring-2 focus:ring-hn-header disabled:opacity-50"
+            />
+          </div>
+        </section>
+
+        {/* Incognito Section */}
+        <section className="mb-8">
+          <h2 className="text-base font-bold mb-4 border-b border-gray-300 dark:border-gray-600 pb-2">
+            Incognito
+          </h2>
+
+          {/* Incognito capture setting */}
+          <div className="flex items-start justify-between py-3 border-b border-gray-100 dark:border-gray-700">
+            <div className="flex-1 pr-4">
+              <label htmlFor="captureIncognito" className="font-medium cursor-pointer">
+                Save incognito tabs
+              </label>
+              <p className="text-sm text-hn-text-secondary mt-1">
+                Let bmbl save tabs from incognito windows into a separate incognito backlog.
+                Requires "Allow in Incognito" on the extension's details page.
+                Incognito tabs are never saved into your main backlog.
+              </p>
+            </div>
+            <Toggle
+              id="captureIncognito"
+              checked={settings.captureIncognito}
+              onChange={(value) => updateSetting('captureIncognito', value)}
+            />
+          </div>
+
+          {/* Clear incognito backlog setting */}
+          <div
+            className={cn(
+              'flex items-start justify-between py-3',
+              isIncognitoContext() && 'border-b border-gray-100 dark:border-gray-700'
+            )}
+          >
+            <div className="flex-1 pr-4">
+              <label htmlFor="clearIncognitoOnClose" className="font-medium cursor-pointer">
+                Clear when incognito closes
+              </label>
+              <p className="text-sm text-hn-text-secondary mt-1">
+                Delete the incognito backlog when the last incognito window closes.
+                Chrome may discard incognito data then anyway, so to keep items,
+                merge them into your main backlog from bmbl's settings in an incognito window.
+              </p>
+            </div>
+            <Toggle
+              id="clearIncognitoOnClose"
+              checked={settings.clearIncognitoOnClose}
+              disabled={!settings.captureIncognito}
+              onChange={(value) => updateSetting('clearIncognitoOnClose', value)}
+            />
+          </div>
+
+          {/* Merge incognito backlog (incognito settings page only) */}
+          {isIncognitoContext() && (
+            <div className="flex items-start justify-between py-3">
+              <div className="flex-1 pr-4">
+                <p className="font-medium">Merge into main backlog</p>
+                <p className="text-sm text-hn-text-secondary mt-1">
+                  Copy this incognito backlog into your main one, merging bookmarks
+                  already saved there. The incognito backlog is kept.
+                </p>
+                {mergeResult && (
+                  <p className="text-sm text-hn-text-secondary mt-1">
+                    Added {mergeResult.imported}, merged {mergeResult.merged}.
+                  </p>
+                )}
+                {mergeError && (
+                  <p className="text-sm text-red-600 dark:text-red-400 mt-1">{mergeError}</p>
+                )}
+              </div>
+              <Button
+                variant="secondary"
+                size="sm"
+                onClick={mergeIncognito}
+                disabled={isMerging}
+              >
+                {isMerging ? 'Merging...' : 'Merge'}
+              </Button>
+            </div>
+          )}
+        </section>
+
         {/* Appearance Section */}
         <section className="mb-8">
           <h2 className="text-base font-bold mb-4 border-b border-gray-300 dark:border-gray-600 pb-2">
@@ -0,0 +1,198 @@
+import { useState, useEffect, useMemo } from 'react';
+import { Globe } from 'lucide-react';
+import { Button } from '@/components/ui/Button';
+import { useSettings } from '@/hooks/useSettings';
+import { useDarkMode } from '@/hooks/useDarkMode';
+import { useCapture } from '@/hooks/useCapture';
+import { useCapturePreview } from '@/hooks/useCapturePreview';
+import { extractDomain, isValidFaviconUrl } from '@/lib/utils/url';
+import type { AggregatedTab, CaptureResult } from '@/types';
+
+const CLOSE_AFTER_SAVE_MS = 1500;
+
+function PreviewRow({
+  aggregated,
+  checked,
+  showFavicons,
+  onToggle,
+}: {
+  aggregated: AggregatedTab;
+  checked: boolean;
+  showFavicons: boolean;
+  onToggle: () => void;
+}) {
+  const tabCount = aggregated.tabIds.length;
+
+  return (
+    <label className="flex items-start gap-2 py-1 cursor-pointer">
+      <input type="checkbox" checked={checked} onChange={onToggle} className="mt-0.5" />
+      {showFavicons && (
+        isValidFaviconUrl(aggregated.favIconUrl) ? (
+          <img src={aggregated.favIconUrl!} alt="" className="w-4 h-4 shrink-0 mt-0.5" />
+        ) : (
+          <Globe size={14} className="text-hn-text-secondary shrink-0 mt-0.5" />
+        )
+      )}
+      <span className="min-w-0">
+        <span className="break-words">{aggregated.title || aggregated.url}</span>
+        {' '}
+        <span className="text-hn-text-secondary text-[8pt]">
+          ({extractDomain(aggregated.url)}){tabCount > 1 && ` ×${tabCount}`}
+        </span>
+      </span>
+    </label>
+  );
+}
+
+export default function App() {
+  const { settings, isLoading: settingsLoading } = useSettings();
+  useDarkMode(settings.darkMode); // Apply dark mode class to html
+
+  const { preview, isLoading, error } = useCapturePreview();
+  const { capture, isCapturing, error: captureError } = useCapture();
+
+  const [unchecked, setUnchecked] = useState<Set<string>>(new Set());
+  const [closeTabs, setCloseTabs] = useState(false);
+  const [name, setName] = useState('');
+  const [result, setResult] = useState<CaptureResult | null>(null);
+
+  // Default "close tabs" to the user's auto-close setting
+  useEffect(() => {
+    if (!settingsLoading) {
+      setCloseTabs(settings.autoCloseAfterSave);
+    }
+  }, [settingsLoading, settings.autoCloseAfterSave]);
+
+  const selectedTabIds = useMemo(() => {
+    if (!preview) return [];
+    return preview.aggregatedTabs
+      .filter((aggregated) => !unchecked.has(aggregated.normalizedUrl))
+      .flatMap((aggregated) => aggregated.tabs.map((tab) => tab.tabId));
+  }, [preview, unchecked]);
+
+  const toggle = (normalizedUrl: string) => {
+    setUnchecked((prev) => {
+      const next = new Set(prev);
+      if (next.has(normalizedUrl)) {
+        next.delete(normalizedUrl);
+      } else {
+        next.add(normalizedUrl);
+      }
+      return next;
+    });
+  };
+
+  const toggleAll = () => {
+    if (!preview) return;
+    setUnchecked(
+      unchecked.size === 0
+        ? new Set(preview.aggregatedTabs.map((aggregated) => aggregated.normalizedUrl))
+        : new Set()
+    );
+  };
+
+  const confirm = async () => {
+    const saved = await capture({ type: 'picked', tabIds: selectedTabIds }, { closeTabs, name });
+    if (saved) {
+      setResult(saved);
+      setTimeout(() => window.close(), CLOSE_AFTER_SAVE_MS);
+    }
+  };
+
+  return (
+    <div className="w-[420px] max-h-[580px] flex flex-col bg-hn-content-bg text-hn-text font-[family-name:var(--font-hn)] text-[10pt]">
+      <header className="bg-hn-header text-white px-2 py-1 flex items-center">
+        <span className="font-bold">bmbl</span>
+        <span className="ml-2">save tabs</span>
+        {preview && (
+          <span className="ml-auto text-[8pt] opacity-80">
+            {selectedTabIds.length} of {preview.aggregatedTabs.reduce((sum, a) => sum + a.tabIds.length, 0)} tabs
+          </span>
+        )}
+      </header>
+
+      <main className="flex-1 overflow-y-auto px-2 py-1">
+        {isLoading && <p className="text-hn-text-secondary py-4 text-center">Loading tabs...</p>}
+        {error && <p className="text-destructive py-4 text-center">{error}</p>}
+
+        {preview && (
+          <>
+            {preview.aggregatedTabs.length === 0 ? (
+              <p className="text-hn-text-secondary py-4 text-center">No tabs to save.</p>
+            ) : (
+              <>
+                <button
+                  onClick={toggleAll}
+                  className="text-[8pt] text-hn-text-secondary hover:underline cursor-pointer"
+                >
+                  {unchecked.size === 0 ? 'select none' : 'select all'}
+                </button>
+                {preview.aggregatedTabs.map((aggregated) => (
+                  <PreviewRow
+                    key={aggregated.normalizedUrl}
+                    aggregated={aggregated}
+                    checked={!unchecked.has(aggregated.normalizedUrl)}
+                    showFavicons={settings.showFavicons}
+                    onToggle={() => toggle(aggregated.normalizedUrl)}
+                  />
+                ))}
+              </>
+            )}
+
+            {(preview.skippedTabs.length > 0 || preview.excludedTabs.length > 0) && (
+              <div className="mt-2 pt-1 border-t border-gray-200 dark:border-gray-700 text-[8pt] text-hn-text-secondary">
+                <div className="font-bold">Not saved</div>
+                {preview.skippedTabs.map((tab, i) => (
+                  <div key={`skipped-${tab.id ?? i}`} className="truncate">
+                    {tab.title || tab.url || 'Untitled'} (internal page)
+                  </div>
+                ))}
+                {preview.excludedTabs.map((tab) => (
+                  <div key={`excluded-${tab.tabId}`} className="truncate">
+                    {tab.title || tab.url} (excluded by rule)
+                  </div>
+                ))}
+              </div>
+            )}
+          </>
+        )}
+      </main>
+
+      <footer className="border-t border-gray-200 dark:border-gray-700 px-2 py-2 flex flex-col gap-2">
+        {result ? (
+          <p className="text-center">
+            Saved {result.tabCountCaptured} tab{result.tabCountCaptured !== 1 ? 's' : ''}.
+          </p>
+        ) : (
+          <>
+            <input
+              type="text"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="Capture name (optional)"
+              className="border border-gray-300 dark:border-gray-600 rounded px-2 py-1 text-sm bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100 focus:outline-none focus:ring-2 focus:ring-hn-header"
+            />
+            <div className="flex items-center justify-between">
+              <label className="flex items-center gap-1 cursor-pointer text-[9pt]">
+                <input
+                  type="checkbox"
+                  checked={closeTabs}
+                  onChange={(e) => setCloseTabs(e.target.checked)}
+                />
+                close tabs after saving
+              </label>
+              <Button
+                size="sm"
+                onClick={confirm}
+                disabled={isCapturing || selectedTabIds.length === 0}
+              >
+                {isCapturing ? 'Saving...' : 'Save'}
+              </Button>
+            </div>
+            {captureError && <p className="text-destructive text-[8pt]">{captureError}</p>}
+          </>
+        )}
+      </footer>
+    </div>
+  );
+}
@@ -1,8 +1,11 @@
 import { useState, useCallback } from 'react';
-import type { CaptureResult } from '@/types';
+import { browser } from '@/lib/browser';
+import type { CaptureOptions, CaptureResult, CaptureScope } from '@/types';
+
+type CaptureRequestOptions = Pick<CaptureOptions, 'closeTabs' | 'name'>;
 
 interface UseCaptureReturn {
-  capture: () => Promise<CaptureResult | null>;
+  capture: (scope?: CaptureScope, options?: CaptureRequestOptions) => Promise<CaptureResult | null>;
   isCapturing: boolean;
   lastResult: CaptureResult | null;
   error: string | null;
@@ -13,14 +16,17 @@ export function useCapture(): UseCaptureReturn {
   const [lastResult, setLastResult] = useState<CaptureResult | null>(null);
   const [error, setError] = useState<string | null>(null);
 
-  const capture = useCallback(async (): Promise<CaptureResult | null> => {
+  const capture = useCallback(async (
+    scope?: CaptureScope,
+    options: CaptureRequestOptions = {}
+  ): Promise<CaptureResult | null> => {
     if (isCapturing) return null;
 
     setIsCapturing(true);
     setError(null);
 
     try {
-      const response = await chrome.runtime.sendMessage({ type: 'CAPTURE_ALL_TABS' });
+      const response = await browser.runtime.sendMessage({ type: 'CAPTURE_ALL_TABS', scope, ...options });
 
       if (response?.error) {
         setError(response.error);
@@ -1,8 +1,9 @@
 import { useEffect } from 'react';
+import { browser } from '@/lib/browser';
 
 /**
- * Listens for capture completion by watching chrome.storage.local changes.
- * This is more reliable than chrome.runtime.sendMessage for MV3 extensions,
+ * Listens for capture completion by watching browser.storage.local changes.
+ * This is more reliable than browser.runtime.sendMessage for MV3 extensions,
  * as storage changes are guaranteed to fire in all extension contexts.
  */
 export function useCaptureListener(onCaptureComplete: () => void): void {
@@ -16,7 +17,7 @@ export function useCaptureListener(onCaptureComplete: () => void): void {
       }
     };
 
-    chrome.storage.onChanged.addListener(listener);
-    return () => chrome.storage.onChanged.removeListener(listener);
+    browser.storage.onChanged.addListener(listener);
+    return () => browser.storage.onChanged.removeListener(listener);
   }, [onCaptureComplete]);
 }
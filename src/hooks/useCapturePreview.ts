@@ -0,0 +1,25 @@
+import { useState, useEffect } from 'react';
+import { buildCapturePreview, type CapturePreview } from '@/lib/capture/preview';
+
+interface UseCapturePreviewReturn {
+  preview: CapturePreview | null;
+  isLoading: boolean;
+  error: string | null;
+}
+
+export function useCapturePreview(): UseCapturePreviewReturn {
+  const [preview, setPreview] = useState<CapturePreview | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    buildCapturePreview()
+      .then(setPreview)
+      .catch((err) => {
+        setError(err instanceof Error ? err.message : 'Failed to load tabs');
+      })
+      .finally(() => setIsLoading(false));
+  }, []);
+
+  return { preview, isLoading, error };
+}
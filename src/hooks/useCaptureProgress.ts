@@ -0,0 +1,47 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { useCaptureListener } from './useCaptureListener';
+import { browser } from '@/lib/browser';
+import type { CaptureProgress, Message } from '@/types';
+
+// Drop progress that stops updating (e.g. the capture failed)
+const STALE_PROGRESS_MS = 30000;
+
+/**
+ * Progress of the capture running in the background, or null when idle.
+ * Updated by CAPTURE_PROGRESS messages; cleared when the capture completes.
+ */
+export function useCaptureProgress(): CaptureProgress | null {
+  const [progress, setProgress] = useState<CaptureProgress | null>(null);
+  const staleTimeout = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  const clear = useCallback(() => {
+    if (staleTimeout.current) {
+      clearTimeout(staleTimeout.current);
+      staleTimeout.current = null;
+    }
+    setProgress(null);
+  }, []);
+
+  useEffect(() => {
+    const listener = (message: Message) => {
+      if (message.type !== 'CAPTURE_PROGRESS') return;
+
+      setProgress(message.progress);
+
+      if (staleTimeout.current) {
+        clearTimeout(staleTimeout.current);
+      }
+      staleTimeout.current = setTimeout(clear, STALE_PROGRESS_MS);
+    };
+
+    browser.runtime.onMessage.addListener(listener);
+    return () => {
+      browser.runtime.onMessage.removeListener(listener);
+      clear();
+    };
+  }, [clear]);
+
+  useCaptureListener(clear);
+
+  return progress;
+}
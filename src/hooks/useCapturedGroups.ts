@@ -0,0 +1,38 @@
+import { useState, useEffect, useCallback } from 'react';
+import { listCapturedGroups } from '@/lib/db/groups';
+import type { CapturedGroup } from '@/types';
+
+interface UseCapturedGroupsReturn {
+  groups: CapturedGroup[];
+  isLoading: boolean;
+  error: string | null;
+  refresh: () => Promise<void>;
+}
+
+/**
+ * Every titled tab group seen in captures, most recently captured first
+ */
+export function useCapturedGroups(): UseCapturedGroupsReturn {
+  const [groups, setGroups] = useState<CapturedGroup[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      setGroups(await listCapturedGroups());
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load tab groups');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  return { groups, isLoading, error, refresh };
+}
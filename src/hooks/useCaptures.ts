@@ -0,0 +1,64 @@
+import { useState, useEffect, useCallback } from 'react';
+import { listCaptures } from '@/lib/db/captures';
+import type { Capture } from '@/types';
+
+const PAGE_SIZE = 30;
+
+interface UseCapturesReturn {
+  captures: Capture[];
+  isLoading: boolean;
+  error: string | null;
+  hasMore: boolean;
+  loadMore: () => Promise<void>;
+  refresh: () => Promise<void>;
+}
+
+export function useCaptures(includeAutomatic: boolean): UseCapturesReturn {
+  const [captures, setCaptures] = useState<Capture[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [offset, setOffset] = useState(0);
+  const [hasMore, setHasMore] = useState(true);
+
+  const refresh = useCallback(async () => {
+    setOffset(0);
+    setHasMore(true);
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const loaded = await listCaptures(PAGE_SIZE, 0, includeAutomatic);
+      setCaptures(loaded);
+      setHasMore(loaded.length === PAGE_SIZE);
+      setOffset(PAGE_SIZE);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load captures');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [includeAutomatic]);
+
+  // Initial load (and reload when the filter changes)
+  useEffect(() => {
+    setCaptures([]);
+    refresh();
+  }, [refresh]);
+
+  const loadMore = useCallback(async () => {
+    if (isLoading || !hasMore) return;
+
+    setIsLoading(true);
+    try {
+      const more = await listCaptures(PAGE_SIZE, offset, includeAutomatic);
+      setCaptures((prev) => [...prev, ...more]);
+      setHasMore(more.length === PAGE_SIZE);
+      setOffset((prev) => prev + PAGE_SIZE);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load more captures');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [includeAutomatic, offset, isLoading, hasMore]);
+
+  return { captures, isLoading, error, hasMore, loadMore, refresh };
+}
@@ -0,0 +1,36 @@
+import { useState, useCallback } from 'react';
+import { mergeIncognitoBacklog, type ImportResult } from '@/lib/import';
+
+interface UseIncognitoMergeReturn {
+  merge: () => Promise<void>;
+  isMerging: boolean;
+  result: ImportResult | null;
+  error: string | null;
+}
+
+export function useIncognitoMerge(): UseIncognitoMergeReturn {
+  const [isMerging, setIsMerging] = useState(false);
+  const [result, setResult] = useState<ImportResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const merge = useCallback(async () => {
+    setIsMerging(true);
+    setResult(null);
+    setError(null);
+
+    try {
+      const merged = await mergeIncognitoBacklog();
+      if (merged.success) {
+        setResult(merged);
+      } else {
+        setError(merged.errors[0] ?? 'Failed to merge into the main backlog');
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to merge into the main backlog');
+    } finally {
+      setIsMerging(false);
+    }
+  }, []);
+
+  return { merge, isMerging, result, error };
+}
@@ -1,6 +1,8 @@
-import { useState, useEffect, useCallback } from 'react';
+import { useState, useEffect, useCallback, useRef } from 'react';
 import { listItems, setFavorite, unsetFavorite, softDelete, restore } from '@/lib/db/items';
-import type { Item, ViewType } from '@/types';
+import { searchItems } from '@/lib/db/search';
+import { addTag, removeTag } from '@/lib/db/tags';
+import type { Item, ItemViewType } from '@/types';
 import { NOT_FAVORITED } from '@/types';
 
 const PAGE_SIZE = 30;
@@ -16,54 +18,99 @@ interface UseItemsReturn {
   unfavorite: (itemId: string) => Promise<void>;
   hide: (itemId: string) => Promise<void>;
   unhide: (itemId: string) => Promise<void>;
+  tag: (itemId: string, name: string) => Promise<void>;
+  untag: (itemId: string, tag: string) => Promise<void>;
 }
 
-export function useItems(view: ViewType): UseItemsReturn {
+/**
+ * Items for a view, filtered by a search query, tag, and tab group when given
+ */
+export function useItems(
+  view: ItemViewType,
+  searchQuery = '',
+  currentTag: string | null = null,
+  currentGroup: string | null = null
+): UseItemsReturn {
   const [items, setItems] = useState<Item[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [offset, setOffset] = useState(0);
   const [hasMore, setHasMore] = useState(true);
+  // Bumped by every load; responses for an older request are dropped
+  const requestId = useRef(0);
+
+  const fetchPage = useCallback(async (pageOffset: number): Promise<Item[]> => {
+    if (searchQuery.trim()) {
+      const page = await searchItems(searchQuery, {
+        view,
+        tag: currentTag,
+        group: currentGroup,
+        limit: PAGE_SIZE,
+        cursor: pageOffset,
+      });
+      return page.items;
+    }
+    return listItems({
+      view,
+      tag: currentTag,
+      group: currentGroup,
+      limit: PAGE_SIZE,
+      offset: pageOffset,
+    });
+  }, [view, searchQuery, currentTag, currentGroup]);
 
   // Initial load
   useEffect(() => {
+    const id = ++requestId.current;
     setItems([]);
     setOffset(0);
     setHasMore(true);
     setIsLoading(true);
     setError(null);
 
-    listItems({ view, limit: PAGE_SIZE, offset: 0 })
+    fetchPage(0)
       .then((loadedItems) => {
+        if (id !== requestId.current) return;
         setItems(loadedItems);
         setHasMore(loadedItems.length === PAGE_SIZE);
         setOffset(PAGE_SIZE);
       })
       .catch((err) => {
+        if (id !== requestId.current) return;
         setError(err.message || 'Failed to load items');
       })
       .finally(() => {
+        if (id !== requestId.current) return;
         setIsLoading(false);
       });
-  }, [view]);
+
+    // A newer filter or unmount makes this response stale
+    return () => {
+      requestId.current++;
+    };
+  }, [fetchPage]);
 
   const loadMore = useCallback(async () => {
     if (isLoading || !hasMore) return;
 
+    const id = requestId.current;
     setIsLoading(true);
     try {
-      const moreItems = await listItems({ view, limit: PAGE_SIZE, offset });
+      const moreItems = await fetchPage(offset);
+      if (id !== requestId.current) return;
       setItems((prev) => [...prev, ...moreItems]);
       setHasMore(moreItems.length === PAGE_SIZE);
       setOffset((prev) => prev + PAGE_SIZE);
     } catch (err) {
+      if (id !== requestId.current) return;
       setError(err instanceof Error ? err.message : 'Failed to load more items');
     } finally {
-      setIsLoading(false);
+      if (id === requestId.current) setIsLoading(false);
     }
-  }, [view, offset, isLoading, hasMore]);
+  }, [fetchPage, offset, isLoading, hasMore]);
 
   const refresh = useCallback(async () => {
+    const id = ++requestId.current;
     setItems([]);
     setOffset(0);
     setHasMore(true);
@@ -71,16 +118,18 @@ export function useItems(view: ViewType): UseItemsReturn {
     setError(null);
 
     try {
-      const loadedItems = await listItems({ view, limit: PAGE_SIZE, offset: 0 });
+      const loadedItems = await fetchPage(0);
+      if (id !== requestId.current) return;
       setItems(loadedItems);
       setHasMore(loadedItems.length === PAGE_SIZE);
       setOffset(PAGE_SIZE);
     } catch (err) {
+      if (id !== requestId.current) return;
       setError(err instanceof Error ? err.message : 'Failed to refresh');
     } finally {
-      setIsLoading(false);
+      if (id === requestId.current) setIsLoading(false);
     }
-  }, [view]);
+  }, [fetchPage]);
 
   const favorite = useCallback(async (itemId: string) => {
     const now = Date.now();
@@ -164,6 +213,42 @@ export function useItems(view: ViewType): UseItemsReturn {
     }
   }, [refresh]);
 
+  const tag = useCallback(async (itemId: string, name: string) => {
+    try {
+      const added = await addTag(itemId, name);
+      if (!added) return;
+
+      setItems((prev) =>
+        prev.map((item) =>
+          item.itemId === itemId && !item.tags.includes(added)
+            ? { ...item, tags: [...item.tags, added] }
+            : item
+        )
+      );
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to add tag');
+    }
+  }, []);
+
+  const untag = useCallback(async (itemId: string, tagToRemove: string) => {
+    // Optimistic update - in a tag's view, the item leaves the list
+    setItems((prev) =>
+      tagToRemove === currentTag
+        ? prev.filter((item) => item.itemId !== itemId)
+        : prev.map((item) =>
+          item.itemId === itemId
+            ? { ...item, tags: item.tags.filter((t) => t !== tagToRemove) }
+            : item
+        )
+    );
+
+    try {
+      await removeTag(itemId, tagToRemove);
+    } catch {
+      await refresh();
+    }
+  }, [currentTag, refresh]);
+
   return {
     items,
     isLoading,
@@ -175,5 +260,7 @@ export function useItems(view: ViewType): UseItemsReturn {
     unfavorite,
     hide,
     unhide,
+    tag,
+    untag,
   };
 }
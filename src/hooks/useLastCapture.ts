@@ -1,11 +1,13 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useCallback } from 'react';
+import { useCaptureListener } from './useCaptureListener';
+import { browser } from '@/lib/browser';
 import type { Capture } from '@/types';
 
 export function useLastCapture(): Capture | null {
   const [lastCapture, setLastCapture] = useState<Capture | null>(null);
 
-  useEffect(() => {
-    chrome.runtime.sendMessage({ type: 'GET_LAST_CAPTURE' })
+  const refresh = useCallback(() => {
+    browser.runtime.sendMessage({ type: 'GET_LAST_CAPTURE' })
       .then((capture) => {
         setLastCapture(capture || null);
       })
@@ -14,5 +16,12 @@ export function useLastCapture(): Capture | null {
       });
   }, []);
 
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  // Refetch whenever a capture completes (or is undone)
+  useCaptureListener(refresh);
+
   return lastCapture;
 }
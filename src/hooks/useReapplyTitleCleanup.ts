@@ -0,0 +1,31 @@
+import { useState, useCallback } from 'react';
+import { reapplyTitleCleanup, type TitleCleanup } from '@/lib/capture/titles';
+
+interface UseReapplyTitleCleanupReturn {
+  reapply: (cleanup: TitleCleanup) => Promise<void>;
+  isReapplying: boolean;
+  updatedCount: number | null;
+  error: string | null;
+}
+
+export function useReapplyTitleCleanup(): UseReapplyTitleCleanupReturn {
+  const [isReapplying, setIsReapplying] = useState(false);
+  const [updatedCount, setUpdatedCount] = useState<number | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const reapply = useCallback(async (cleanup: TitleCleanup) => {
+    setIsReapplying(true);
+    setUpdatedCount(null);
+    setError(null);
+
+    try {
+      setUpdatedCount(await reapplyTitleCleanup(cleanup));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update titles');
+    } finally {
+      setIsReapplying(false);
+    }
+  }, []);
+
+  return { reapply, isReapplying, updatedCount, error };
+}
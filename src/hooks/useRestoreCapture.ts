@@ -0,0 +1,40 @@
+import { useState, useCallback } from 'react';
+import { browser } from '@/lib/browser';
+import type { RestoreResult } from '@/types';
+
+interface UseRestoreCaptureReturn {
+  restore: (captureId: string) => Promise<RestoreResult | null>;
+  isRestoring: boolean;
+  error: string | null;
+}
+
+export function useRestoreCapture(): UseRestoreCaptureReturn {
+  const [isRestoring, setIsRestoring] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const restore = useCallback(async (captureId: string): Promise<RestoreResult | null> => {
+    if (isRestoring) return null;
+
+    setIsRestoring(true);
+    setError(null);
+
+    try {
+      const response = await browser.runtime.sendMessage({ type: 'RESTORE_CAPTURE', captureId });
+
+      if (response?.error) {
+        setError(response.error);
+        return null;
+      }
+
+      return response as RestoreResult;
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Restore failed';
+      setError(errorMessage);
+      return null;
+    } finally {
+      setIsRestoring(false);
+    }
+  }, [isRestoring]);
+
+  return { restore, isRestoring, error };
+}
@@ -0,0 +1,38 @@
+import { useState, useCallback } from 'react';
+import { tagItemsWithGroupTitles } from '@/lib/db/groups';
+import { browser } from '@/lib/browser';
+
+interface UseTagGroupTitlesReturn {
+  tagPastGroups: () => Promise<void>;
+  isTagging: boolean;
+  taggedCount: number | null;
+  error: string | null;
+}
+
+export function useTagGroupTitles(): UseTagGroupTitlesReturn {
+  const [isTagging, setIsTagging] = useState(false);
+  const [taggedCount, setTaggedCount] = useState<number | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const tagPastGroups = useCallback(async () => {
+    setIsTagging(true);
+    setTaggedCount(null);
+    setError(null);
+
+    try {
+      const count = await tagItemsWithGroupTitles();
+      setTaggedCount(count);
+
+      if (count > 0) {
+        // Refresh open new tab pages and tag lists
+        await browser.storage.local.set({ lastCaptureTime: Date.now() });
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to tag items');
+    } finally {
+      setIsTagging(false);
+    }
+  }, []);
+
+  return { tagPastGroups, isTagging, taggedCount, error };
+}
@@ -0,0 +1,29 @@
+import { useState, useEffect, useCallback } from 'react';
+import { listTags } from '@/lib/db/tags';
+import type { TagCount } from '@/types';
+
+interface UseTagsReturn {
+  tags: TagCount[];
+  refresh: () => Promise<void>;
+}
+
+/**
+ * All tags in use, with item counts
+ */
+export function useTags(): UseTagsReturn {
+  const [tags, setTags] = useState<TagCount[]>([]);
+
+  const refresh = useCallback(async () => {
+    try {
+      setTags(await listTags());
+    } catch (err) {
+      console.error('Failed to load tags:', err);
+    }
+  }, []);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  return { tags, refresh };
+}
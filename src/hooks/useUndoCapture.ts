@@ -0,0 +1,40 @@
+import { useState, useCallback } from 'react';
+import { browser } from '@/lib/browser';
+import type { UndoResult } from '@/types';
+
+interface UseUndoCaptureReturn {
+  undo: (captureId?: string) => Promise<UndoResult | null>;
+  isUndoing: boolean;
+  error: string | null;
+}
+
+export function useUndoCapture(): UseUndoCaptureReturn {
+  const [isUndoing, setIsUndoing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const undo = useCallback(async (captureId?: string): Promise<UndoResult | null> => {
+    if (isUndoing) return null;
+
+    setIsUndoing(true);
+    setError(null);
+
+    try {
+      const response = await browser.runtime.sendMessage({ type: 'UNDO_CAPTURE', captureId });
+
+      if (response?.error) {
+        setError(response.error);
+        return null;
+      }
+
+      return response as UndoResult;
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Undo failed';
+      setError(errorMessage);
+      return null;
+    } finally {
+      setIsUndoing(false);
+    }
+  }, [isUndoing]);
+
+  return { undo, isUndoing, error };
+}
@@ -0,0 +1,56 @@
+import { browser } from 'wxt/browser';
+
+/**
+ * Promise-based extension APIs on every browser
+ * (`browser` on Firefox, `chrome` on Chrome). Use this instead of `chrome.*`
+ * so the capture pipeline and settings also run in Firefox builds.
+ */
+export { browser };
+
+/**
+ * Name of the browser this build targets, e.g. 'chrome' or 'firefox'
+ * Set by WXT at build time (`wxt -b firefox`).
+ */
+export function getBrowserName(): string {
+  return import.meta.env.BROWSER;
+}
+
+/**
+ * The parts of the toolbar button API bmbl uses, which action (MV3)
+ * and browserAction (Firefox's MV2 build) share
+ */
+export type ToolbarAction = Pick<
+  typeof browser.action,
+  'setIcon' | 'setBadgeText' | 'setBadgeBackgroundColor' | 'setPopup' | 'onClicked'
+>;
+
+/**
+ * Get the toolbar button API
+ * Firefox's Manifest V2 build only has browserAction.
+ */
+export function getAction(): ToolbarAction {
+  return browser.action ?? browser.browserAction;
+}
+
+/**
+ * Context menu context for the toolbar button's right-click menu
+ * Manifest V2 (Firefox) only accepts 'browser_action'.
+ */
+export function getActionMenuContext(): 'action' | 'browser_action' {
+  return import.meta.env.MANIFEST_VERSION === 2 ? 'browser_action' : 'action';
+}
+
+/**
+ * Check whether tab groups are available
+ * Firefox has no tabGroups API; captures there simply have no group info.
+ */
+export function hasTabGroups(): boolean {
+  return typeof browser.tabGroups !== 'undefined';
+}
+
+/**
+ * Check whether notifications can show action buttons (not on Firefox)
+ */
+export function hasNotificationButtons(): boolean {
+  return !import.meta.env.FIREFOX;
+}
@@ -1,22 +1,57 @@
 import { db } from '@/lib/db/schema';
-import { upsertItem } from '@/lib/db/items';
-import { createCapture, insertCaptureEvent } from '@/lib/db/captures';
+import { upsertItems } from '@/lib/db/items';
+import { normalizeTags } from '@/lib/db/tags';
+import { createCapture, insertCaptureEvents } from '@/lib/db/captures';
 import { getSettings } from '@/lib/settings';
+import { isCapturableUrl, normalizeUrl, unwrapUrl } from '@/lib/utils/url';
 import { setIconState } from './icons';
 import {
-  queryAllTabs,
+  beginCaptureJournal,
+  setJournalTabsToClose,
+  markJournalClosing,
+  endCaptureJournal,
+} from './journal';
+import { assertCaptureAllowed } from './incognito';
+import { cleanTitle, type TitleCleanup } from './titles';
+import { reportCaptureProgress, showCaptureTotal } from './progress';
+import { isExcludedTab } from './exclusions';
+import {
+  queryTabsForScope,
   queryAllTabGroups,
   buildGroupMap,
   filterAndTransformTabs,
   closeTabsExcludingPinned,
   aggregateTabsByUrl,
 } from './tabs';
-import type { CaptureResult, CaptureEvent } from '@/types';
+import type {
+  AggregatedTab,
+  CaptureResult,
+  CaptureEvent,
+  CaptureFailure,
+  CaptureOptions,
+  CaptureScope,
+  CaptureTrigger,
+  TabGroupInfo,
+  UrlNormalizationRules,
+  WindowSnapshot,
+} from '@/types';
+import { CAPTURE_SCOPE_ALL, NOT_DELETED } from '@/types';
 import { generateId } from '@/lib/utils/uuid';
 
+// Unique URLs upserted per batch; progress is reported after each
+const UPSERT_BATCH_SIZE = 250;
+
+// Favicons longer than this (usually inline data: URLs) are not stored;
+// the item is still saved, just without an icon
+const MAX_FAVICON_URL_LENGTH = 64 * 1024;
+
 // Track if capture is in progress to prevent concurrent captures
+// (persisted in the capture journal in case the service worker stops)
 let captureInProgress = false;
 
+// Tasks waiting for the capture lock, woken one at a time as it is released
+const lockWaiters: (() => void)[] = [];
+
 /**
  * Check if a capture is currently in progress
  */
@@ -25,59 +60,376 @@ export function isCaptureInProgress(): boolean {
 }
 
 /**
- * Perform a full capture of all open tabs
+ * Run a task that must not overlap a capture (e.g. undo) while holding
+ * the capture lock. Fails if a capture is running, unless wait is set,
+ * in which case it queues behind it. The task is not journaled.
+ */
+export async function runWithCaptureLock<T>(
+  task: () => Promise<T>,
+  wait = false
+): Promise<T> {
+  while (wait && captureInProgress) {
+    await new Promise<void>((resolve) => lockWaiters.push(resolve));
+  }
+
+  if (captureInProgress) {
+    throw new Error('Capture already in progress');
+  }
+
+  captureInProgress = true;
+
+  try {
+    return await task();
+  } finally {
+    freeCaptureLock();
+  }
+}
+
+/**
+ * Take the capture lock and start the capture's journal
+ * With wait, queues behind a running capture instead of failing.
  */
-export async function captureAllTabs(): Promise<CaptureResult> {
+async function acquireCaptureLock(captureId: string, wait = false): Promise<void> {
+  while (wait && captureInProgress) {
+    await new Promise<void>((resolve) => lockWaiters.push(resolve));
+  }
+
   if (captureInProgress) {
     throw new Error('Capture already in progress');
   }
 
   captureInProgress = true;
 
+  try {
+    await beginCaptureJournal(captureId);
+  } catch (error) {
+    freeCaptureLock();
+    throw error;
+  }
+}
+
+/**
+ * Release the capture lock once the capture has finished or failed
+ */
+async function releaseCaptureLock(): Promise<void> {
+  try {
+    await endCaptureJournal();
+  } finally {
+    freeCaptureLock();
+  }
+}
+
+function freeCaptureLock(): void {
+  captureInProgress = false;
+  lockWaiters.shift()?.();
+}
+
+/**
+ * Perform a capture of open tabs
+ * Captures every tab in every window unless a narrower scope is given.
+ */
+export async function captureAllTabs(options: CaptureOptions = {}): Promise<CaptureResult> {
+  const scope = options.scope ?? CAPTURE_SCOPE_ALL;
+  const captureId = generateId();
+
+  await assertCaptureAllowed();
+
+  await acquireCaptureLock(captureId);
+
   try {
     // Set loading icon
     await setIconState('loading');
 
     // Get settings
     const settings = await getSettings();
+    const closeTabs = options.closeTabs ?? settings.autoCloseAfterSave;
 
-    // Query all tabs and groups
+    // Query tabs in scope and all groups
     const [allTabs, allGroups] = await Promise.all([
-      queryAllTabs(),
+      queryTabsForScope(scope),
       queryAllTabGroups(),
     ]);
 
     const groupMap = buildGroupMap(allGroups);
-    const { capturableTabs, skippedCount } = filterAndTransformTabs(allTabs);
+    const { capturableTabs, skippedCount, excludedCount } = filterAndTransformTabs(
+      allTabs,
+      settings.exclusionRules,
+      groupMap
+    );
 
     // Aggregate tabs by URL to handle duplicates
-    const aggregatedTabs = aggregateTabsByUrl(capturableTabs, groupMap);
-
-    // Prepare capture stats
-    let tabCountUpdatedExisting = 0;
-    let tabCountInsertedNew = 0;
-    let tabCountAlreadyDeleted = 0;
-
-    // Generate capture ID upfront
-    const captureId = generateId();
-    const capturedAt = Date.now();
-
-    // Use a Dexie transaction for atomicity
-    await db.transaction('rw', [db.items, db.captures, db.captureEvents], async () => {
-      // Process each UNIQUE URL (not each tab)
-      for (const aggregated of aggregatedTabs) {
-        const tabCount = aggregated.tabs.length;
-
-        const { item, isNew, wasDeleted } = await upsertItem(
-          aggregated.url,
-          aggregated.title || null,
-          aggregated.favIconUrl,
-          tabCount
-        );
+    const aggregatedTabs = aggregateTabsByUrl(capturableTabs, groupMap, settings.urlNormalization);
+
+    // Journal the tabs to close, so an interrupted capture can finish closing them
+    if (closeTabs) {
+      await setJournalTabsToClose(capturableTabs);
+    }
+
+    const result = await saveAggregatedTabs(aggregatedTabs, {
+      captureId,
+      scope,
+      trigger: options.trigger ?? 'manual',
+      countSaves: options.countSaves ?? true,
+      tabCountCaptured: capturableTabs.length, // Total tabs
+      tabCountSkippedInternal: skippedCount,
+      tabCountSkippedByRule: excludedCount,
+      autoCloseEnabled: closeTabs,
+      isolateFailures: options.isolateFailures ?? true,
+      name: options.name?.trim() || null,
+      titleCleanup: settings,
+      normalization: settings.urlNormalization,
+      resurfaceHidden: settings.resurfaceHiddenOnRecapture,
+      tagGroupTitles: settings.tagGroupTitles,
+    });
+
+    // Auto-close tabs if enabled (or requested for this capture),
+    // keeping open any tab whose URL failed to save
+    if (closeTabs) {
+      await markJournalClosing();
+      const { urlNormalization } = settings;
+      const failedUrls = new Set(
+        result.failures.map((failure) => normalizeUrl(failure.url, urlNormalization))
+      );
+      await closeTabsExcludingPinned(
+        capturableTabs.filter((tab) => !failedUrls.has(normalizeUrl(tab.url, urlNormalization)))
+      );
+    }
+
+    // Set success icon
+    await setIconState('success');
+    showCaptureTotal(result);
+
+    return result;
+  } finally {
+    await releaseCaptureLock();
+  }
+}
+
+/**
+ * Capture a single URL that is not necessarily open in a tab (e.g. a link)
+ * Counts as one save and is recorded as its own capture.
+ */
+export async function captureLink(linkUrl: string, title: string | null): Promise<CaptureResult> {
+  // Right-clicked links are often redirects (e.g. Google search results)
+  const url = unwrapUrl(linkUrl);
+
+  if (!isCapturableUrl(url)) {
+    throw new Error('Link cannot be saved (must be http/https)');
+  }
+
+  await assertCaptureAllowed();
+
+  const captureId = generateId();
+
+  await acquireCaptureLock(captureId);
+
+  try {
+    await setIconState('loading');
+
+    const settings = await getSettings();
+
+    // A link has no tab, so it is a one-entry aggregation with a null tab ID
+    const aggregated: AggregatedTab = {
+      normalizedUrl: normalizeUrl(url, settings.urlNormalization),
+      url,
+      title: title || '',
+      favIconUrl: null,
+      tabs: [],
+      windowIds: [],
+      tabIds: [null],
+      pinnedAny: false,
+      groupId: null,
+      groupTitle: null,
+      groupColor: null,
+      lastAccessed: null,
+    };
+
+    const result = await saveAggregatedTabs([aggregated], {
+      captureId,
+      scope: { type: 'link' },
+      trigger: 'manual',
+      countSaves: true,
+      tabCountCaptured: 1,
+      tabCountSkippedInternal: 0,
+      tabCountSkippedByRule: 0,
+      autoCloseEnabled: false,
+      isolateFailures: false,
+      name: null,
+      titleCleanup: settings,
+      normalization: settings.urlNormalization,
+      resurfaceHidden: settings.resurfaceHiddenOnRecapture,
+      tagGroupTitles: settings.tagGroupTitles,
+    });
+
+    await setIconState('success');
+    showCaptureTotal(result);
+
+    return result;
+  } finally {
+    await releaseCaptureLock();
+  }
+}
+
+/**
+ * Capture a closed window's tabs from its last snapshot
+ * Exclusion rules apply as they are now, not as they were when the
+ * snapshot was taken. Never counts as a save; new items are still added.
+ * Waits for a running capture to finish rather than losing the tabs.
+ */
+export async function captureClosedWindow(snapshot: WindowSnapshot): Promise<CaptureResult> {
+  const captureId = generateId();
+
+  await acquireCaptureLock(captureId, true);
+
+  try {
+    await setIconState('loading');
+
+    const settings = await getSettings();
+    const groupMap = new Map<number, TabGroupInfo>(
+      snapshot.groups.map((group) => [group.groupId, group])
+    );
+
+    const capturableTabs = snapshot.tabs.filter(
+      (tab) => !isExcludedTab(tab, settings.exclusionRules, groupMap)
+    );
+    const aggregatedTabs = aggregateTabsByUrl(capturableTabs, groupMap, settings.urlNormalization);
+
+    const result = await saveAggregatedTabs(aggregatedTabs, {
+      captureId,
+      scope: { type: 'window', windowId: snapshot.windowId },
+      trigger: 'windowClosed',
+      countSaves: false,
+      tabCountCaptured: capturableTabs.length,
+      tabCountSkippedInternal: snapshot.skippedCount,
+      tabCountSkippedByRule: snapshot.tabs.length - capturableTabs.length,
+      autoCloseEnabled: false,
+      isolateFailures: true,
+      name: null,
+      titleCleanup: settings,
+      normalization: settings.urlNormalization,
+      resurfaceHidden: settings.resurfaceHiddenOnRecapture,
+      tagGroupTitles: settings.tagGroupTitles,
+    });
+
+    await setIconState('success');
+    showCaptureTotal(result);
+
+    return result;
+  } finally {
+    await releaseCaptureLock();
+  }
+}
+
+interface SaveContext {
+  captureId: string;
+  scope: CaptureScope;
+  trigger: CaptureTrigger;
+  countSaves: boolean;
+  tabCountCaptured: number;
+  tabCountSkippedInternal: number;
+  tabCountSkippedByRule: number;
+  autoCloseEnabled: boolean;
+  isolateFailures: boolean;
+  name: string | null;
+  titleCleanup: TitleCleanup;
+  normalization: UrlNormalizationRules;
+  resurfaceHidden: boolean;
+  tagGroupTitles: boolean;
+}
+
+/**
+ * Find why an aggregated URL can't be saved, if anything
+ */
+function findSaveProblem(aggregated: AggregatedTab): string | null {
+  try {
+    new URL(aggregated.url);
+  } catch {
+    return 'Malformed URL';
+  }
+  return null;
+}
+
+/**
+ * Upsert aggregated URLs and record the capture and its events
+ * Each aggregation counts once per tab ID it holds. Progress is
+ * reported in tabs after each upsert batch.
+ * With isolateFailures, URLs that fail are recorded on the capture and
+ * everything else is still saved; otherwise any failure aborts the capture.
+ */
+async function saveAggregatedTabs(
+  aggregatedTabs: AggregatedTab[],
+  context: SaveContext
+): Promise<CaptureResult> {
+  // Prepare capture stats
+  let tabCountUpdatedExisting = 0;
+  let tabCountInsertedNew = 0;
+  let tabCountAlreadyDeleted = 0;
+  let tabCountResurfaced = 0;
+  const failures: CaptureFailure[] = [];
+
+  const { captureId } = context;
+  const capturedAt = Date.now();
+
+  // Use a Dexie transaction for atomicity
+  await db.transaction('rw', [db.items, db.captures, db.captureEvents], async () => {
+    const events: CaptureEvent[] = [];
+    const total = aggregatedTabs.reduce((sum, aggregated) => sum + aggregated.tabIds.length, 0);
+    let processed = 0;
+
+    reportCaptureProgress({ processed, total });
+
+    // Upsert UNIQUE URLs (not each tab) in batches
+    for (let start = 0; start < aggregatedTabs.length; start += UPSERT_BATCH_SIZE) {
+      const batch: AggregatedTab[] = [];
+
+      for (const aggregated of aggregatedTabs.slice(start, start + UPSERT_BATCH_SIZE)) {
+        const problem = findSaveProblem(aggregated);
+
+        if (!problem) {
+          batch.push(aggregated);
+        } else if (context.isolateFailures) {
+          failures.push({ url: aggregated.url, tabCount: aggregated.tabIds.length, error: problem });
+          processed += aggregated.tabIds.length;
+        } else {
+          throw new Error(`Cannot save ${aggregated.url}: ${problem}`);
+        }
+      }
+
+      const upserts = await upsertItems(
+        batch.map((aggregated) => ({
+          url: aggregated.url,
+          title: aggregated.title ? cleanTitle(aggregated.title, context.titleCleanup) : null,
+          rawTitle: aggregated.title || null,
+          favIconUrl: aggregated.favIconUrl && aggregated.favIconUrl.length <= MAX_FAVICON_URL_LENGTH
+            ? aggregated.favIconUrl
+            : null,
+          tabCount: aggregated.tabIds.length,
+          tags: context.tagGroupTitles ? normalizeTags([aggregated.groupTitle]) : [],
+        })),
+        {
+          countSave: context.countSaves,
+          isolateFailures: context.isolateFailures,
+          normalization: context.normalization,
+          // Captures that don't count as saves (snapshots) leave hidden items hidden
+          resurfaceHidden: context.resurfaceHidden && context.countSaves,
+        }
+      );
+
+      batch.forEach((aggregated, i) => {
+        const { item, isNew, wasDeleted, resurfacedFrom, previousLastSavedAt, tagsAdded, error } = upserts[i];
+        const tabCount = aggregated.tabIds.length;
+        processed += tabCount;
+
+        if (error) {
+          failures.push({ url: aggregated.url, tabCount, error });
+          return;
+        }
 
         // Track stats based on tabs, not unique URLs
         if (isNew) {
           tabCountInsertedNew += tabCount;
+        } else if (resurfacedFrom !== NOT_DELETED) {
+          tabCountResurfaced += tabCount;
         } else if (wasDeleted) {
           tabCountAlreadyDeleted += tabCount;
         } else {
@@ -85,7 +437,7 @@ export async function captureAllTabs(): Promise<CaptureResult> {
         }
 
         // Create ONE capture event per unique URL
-        const event: CaptureEvent = {
+        events.push({
           captureId,
           itemId: item.itemId,
           capturedAt,
@@ -96,40 +448,47 @@ export async function captureAllTabs(): Promise<CaptureResult> {
           groupId: aggregated.groupId,
           groupTitle: aggregated.groupTitle,
           groupColor: aggregated.groupColor,
-        };
-
-        await insertCaptureEvent(event);
-      }
-
-      // Create capture record
-      await createCapture({
-        tabCountCaptured: capturableTabs.length, // Total tabs
-        tabCountSkippedInternal: skippedCount,
-        tabCountUpdatedExisting,
-        tabCountInsertedNew,
-        tabCountAlreadyDeleted,
-        autoCloseEnabled: settings.autoCloseAfterSave,
-        uniqueUrlCount: aggregatedTabs.length, // Unique URLs
+          createdItem: isNew,
+          resurfacedFrom,
+          idleMs: aggregated.lastAccessed !== null ? capturedAt - aggregated.lastAccessed : null,
+          previousLastSavedAt,
+          tagsAdded,
+        });
       });
-    });
 
-    // Auto-close tabs if enabled
-    if (settings.autoCloseAfterSave) {
-      await closeTabsExcludingPinned(capturableTabs);
+      reportCaptureProgress({ processed, total });
     }
 
-    // Set success icon
-    await setIconState('success');
+    await insertCaptureEvents(events);
 
-    return {
-      captureId,
-      tabCountCaptured: capturableTabs.length,
-      tabCountSkippedInternal: skippedCount,
+    // Create capture record
+    await createCapture({
+      tabCountCaptured: context.tabCountCaptured,
+      tabCountSkippedInternal: context.tabCountSkippedInternal,
+      tabCountSkippedByRule: context.tabCountSkippedByRule,
       tabCountUpdatedExisting,
       tabCountInsertedNew,
       tabCountAlreadyDeleted,
-    };
-  } finally {
-    captureInProgress = false;
-  }
+      tabCountResurfaced,
+      autoCloseEnabled: context.autoCloseEnabled,
+      uniqueUrlCount: aggregatedTabs.length, // Unique URLs
+      scope: context.scope,
+      trigger: context.trigger,
+      savesCounted: context.countSaves,
+      failures,
+      name: context.name,
+    }, captureId);
+  });
+
+  return {
+    captureId,
+    tabCountCaptured: context.tabCountCaptured,
+    tabCountSkippedInternal: context.tabCountSkippedInternal,
+    tabCountSkippedByRule: context.tabCountSkippedByRule,
+    tabCountUpdatedExisting,
+    tabCountInsertedNew,
+    tabCountAlreadyDeleted,
+    tabCountResurfaced,
+    failures,
+  };
 }
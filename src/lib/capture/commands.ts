@@ -0,0 +1,48 @@
+import { captureAllTabs } from './capture';
+import { browser } from '@/lib/browser';
+import type { CaptureResult } from '@/types';
+
+// Command names must match the `commands` keys in wxt.config.ts
+export const COMMAND_CAPTURE_ALL = 'capture-all-tabs';
+export const COMMAND_CAPTURE_WINDOW = 'capture-current-window';
+export const COMMAND_CAPTURE_AND_CLOSE = 'capture-and-close';
+export const COMMAND_SAVE_ACTIVE_TAB = 'save-active-tab';
+
+/**
+ * Handle a keyboard shortcut (called from background.ts listener)
+ * Returns null if the command is not a bmbl capture command.
+ */
+export async function handleCommand(
+  command: string,
+  tab?: chrome.tabs.Tab
+): Promise<CaptureResult | null> {
+  switch (command) {
+    case COMMAND_CAPTURE_ALL:
+      return captureAllTabs();
+
+    case COMMAND_CAPTURE_WINDOW:
+      return captureAllTabs({ scope: { type: 'currentWindow' } });
+
+    case COMMAND_CAPTURE_AND_CLOSE:
+      return captureAllTabs({ closeTabs: true });
+
+    case COMMAND_SAVE_ACTIVE_TAB: {
+      const tabId = tab?.id ?? (await queryActiveTabId());
+      if (tabId === undefined) return null;
+      // Auto-close is for bulk captures, not the page being read
+      return captureAllTabs({ scope: { type: 'tab', tabId }, closeTabs: false });
+    }
+
+    default:
+      return null;
+  }
+}
+
+/**
+ * Find the active tab in the last focused window
+ * (older Chrome versions don't pass the tab to onCommand)
+ */
+async function queryActiveTabId(): Promise<number | undefined> {
+  const [activeTab] = await browser.tabs.query({ active: true, lastFocusedWindow: true });
+  return activeTab?.id;
+}
@@ -0,0 +1,106 @@
+import { captureAllTabs, captureLink } from './capture';
+import { restoreCapture } from './restore';
+import { getLastCapture } from '@/lib/db/captures';
+import { browser, getActionMenuContext } from '@/lib/browser';
+import type { CaptureResult } from '@/types';
+
+export const CONTEXT_MENU_SAVE_PAGE = 'bmbl-save-page';
+export const CONTEXT_MENU_SAVE_LINK = 'bmbl-save-link';
+export const CONTEXT_MENU_SAVE_WINDOW = 'bmbl-save-window';
+export const CONTEXT_MENU_RESTORE_LAST = 'bmbl-restore-last';
+
+/**
+ * Create bmbl's context menu entries
+ * Existing entries are removed first, since onInstalled also fires on update.
+ */
+export async function registerContextMenus(): Promise<void> {
+  await browser.contextMenus.removeAll();
+
+  browser.contextMenus.create({
+    id: CONTEXT_MENU_SAVE_PAGE,
+    title: 'Save this page to bmbl',
+    contexts: ['page', 'selection'],
+  });
+
+  browser.contextMenus.create({
+    id: CONTEXT_MENU_SAVE_LINK,
+    title: 'Save link to bmbl',
+    contexts: ['link'],
+  });
+
+  browser.contextMenus.create({
+    id: CONTEXT_MENU_SAVE_WINDOW,
+    title: 'Save all tabs in this window',
+    contexts: ['page', 'selection', 'link'],
+  });
+
+  // Toolbar icon right-click menu
+  browser.contextMenus.create({
+    id: CONTEXT_MENU_RESTORE_LAST,
+    title: 'Restore last capture as windows',
+    contexts: [getActionMenuContext()],
+  });
+}
+
+/**
+ * Handle a context menu click (called from background.ts listener)
+ * Returns the capture result, or null if the click did not capture.
+ */
+export async function handleContextMenuClick(
+  info: chrome.contextMenus.OnClickData,
+  tab?: chrome.tabs.Tab
+): Promise<CaptureResult | null> {
+  switch (info.menuItemId) {
+    case CONTEXT_MENU_SAVE_PAGE:
+      if (tab?.id === undefined) return null;
+      // Auto-close is for bulk captures, not the page being read
+      return captureAllTabs({ scope: { type: 'tab', tabId: tab.id }, closeTabs: false });
+
+    case CONTEXT_MENU_SAVE_LINK: {
+      if (!info.linkUrl) return null;
+      const title = await getLinkText(info, tab) || info.selectionText || null;
+      return captureLink(info.linkUrl, title);
+    }
+
+    case CONTEXT_MENU_SAVE_WINDOW:
+      return captureAllTabs({ scope: { type: 'currentWindow' } });
+
+    case CONTEXT_MENU_RESTORE_LAST: {
+      const lastCapture = await getLastCapture();
+      if (lastCapture) {
+        await restoreCapture(lastCapture.captureId);
+      }
+      return null;
+    }
+
+    default:
+      return null;
+  }
+}
+
+/**
+ * Read the visible text of the right-clicked link from the page
+ * Relies on the activeTab grant that a context menu click provides.
+ * Returns null if the page cannot be scripted (e.g. chrome:// pages).
+ */
+async function getLinkText(
+  info: chrome.contextMenus.OnClickData,
+  tab?: chrome.tabs.Tab
+): Promise<string | null> {
+  if (tab?.id === undefined || !info.linkUrl) return null;
+
+  try {
+    const [injection] = await browser.scripting.executeScript({
+      target: { tabId: tab.id, frameIds: [info.frameId ?? 0] },
+      args: [info.linkUrl],
+      func: (linkUrl: string) => {
+        const anchors = Array.from(document.querySelectorAll('a[href]')) as HTMLAnchorElement[];
+        const anchor = anchors.find((a) => a.href === linkUrl);
+        return anchor?.textContent?.trim() || null;
+      },
+    });
+    return (injection?.result as string | null | undefined) || null;
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,109 @@
+import { describe, it, expect } from 'vitest';
+import { isExcludedTab, matchesExclusionRule, validateExclusionRule } from './exclusions';
+import type { ExclusionRule, TabInfo, TabGroupInfo } from '@/types';
+
+function makeTab(overrides: Partial<TabInfo> = {}): TabInfo {
+  return {
+    tabId: 1,
+    windowId: 1,
+    url: 'https://example.com/page',
+    title: 'Example',
+    favIconUrl: null,
+    pinned: false,
+    groupId: -1,
+    lastAccessed: null,
+    ...overrides,
+  };
+}
+
+function makeRule(type: ExclusionRule['type'], pattern = '', enabled = true): ExclusionRule {
+  return { id: 'rule', type, pattern, enabled };
+}
+
+const groupMap = new Map<number, TabGroupInfo>([
+  [7, { groupId: 7, title: 'Work', color: 'blue' }],
+]);
+
+describe('matchesExclusionRule', () => {
+  it('matches exact domain', () => {
+    const tab = makeTab({ url: 'https://mail.google.com/mail/u/0' });
+    expect(matchesExclusionRule(tab, makeRule('domain', 'mail.google.com'), groupMap)).toBe(true);
+  });
+
+  it('matches subdomains of a domain', () => {
+    const tab = makeTab({ url: 'https://calendar.google.com/' });
+    expect(matchesExclusionRule(tab, makeRule('domain', 'google.com'), groupMap)).toBe(true);
+  });
+
+  it('does not match a domain suffix that is not a subdomain', () => {
+    const tab = makeTab({ url: 'https://notgoogle.com/' });
+    expect(matchesExclusionRule(tab, makeRule('domain', 'google.com'), groupMap)).toBe(false);
+  });
+
+  it('matches domain with port', () => {
+    const tab = makeTab({ url: 'http://localhost:3000/app' });
+    expect(matchesExclusionRule(tab, makeRule('domain', 'localhost:3000'), groupMap)).toBe(true);
+    expect(matchesExclusionRule(tab, makeRule('domain', 'localhost:8080'), groupMap)).toBe(false);
+  });
+
+  it('matches URL globs against the whole URL', () => {
+    const tab = makeTab({ url: 'http://localhost:5173/dashboard' });
+    expect(matchesExclusionRule(tab, makeRule('urlGlob', 'http://localhost:*'), groupMap)).toBe(true);
+    expect(matchesExclusionRule(tab, makeRule('urlGlob', 'localhost'), groupMap)).toBe(false);
+  });
+
+  it('treats regex characters in globs literally', () => {
+    const tab = makeTab({ url: 'https://exampleXcom/' });
+    expect(matchesExclusionRule(tab, makeRule('urlGlob', 'https://example.com/*'), groupMap)).toBe(false);
+  });
+
+  it('matches URL regex case-insensitively', () => {
+    const tab = makeTab({ url: 'https://Grafana.internal/d/abc' });
+    expect(matchesExclusionRule(tab, makeRule('urlRegex', 'grafana\\.internal'), groupMap)).toBe(true);
+  });
+
+  it('never matches an invalid regex', () => {
+    expect(matchesExclusionRule(makeTab(), makeRule('urlRegex', '('), groupMap)).toBe(false);
+  });
+
+  it('matches pinned tabs', () => {
+    expect(matchesExclusionRule(makeTab({ pinned: true }), makeRule('pinned'), groupMap)).toBe(true);
+    expect(matchesExclusionRule(makeTab({ pinned: false }), makeRule('pinned'), groupMap)).toBe(false);
+  });
+
+  it('matches tab group titles case-insensitively', () => {
+    const tab = makeTab({ groupId: 7 });
+    expect(matchesExclusionRule(tab, makeRule('groupTitle', 'work'), groupMap)).toBe(true);
+    expect(matchesExclusionRule(makeTab(), makeRule('groupTitle', 'work'), groupMap)).toBe(false);
+  });
+});
+
+describe('isExcludedTab', () => {
+  it('ignores disabled rules', () => {
+    const rules = [makeRule('pinned', '', false)];
+    expect(isExcludedTab(makeTab({ pinned: true }), rules, groupMap)).toBe(false);
+  });
+
+  it('excludes when any rule matches', () => {
+    const rules = [makeRule('domain', 'other.com'), makeRule('domain', 'example.com')];
+    expect(isExcludedTab(makeTab(), rules, groupMap)).toBe(true);
+  });
+});
+
+describe('validateExclusionRule', () => {
+  it('requires a pattern', () => {
+    expect(validateExclusionRule({ type: 'domain', pattern: '  ' })).not.toBeNull();
+  });
+
+  it('allows pinned without a pattern', () => {
+    expect(validateExclusionRule({ type: 'pinned', pattern: '' })).toBeNull();
+  });
+
+  it('rejects invalid regex', () => {
+    expect(validateExclusionRule({ type: 'urlRegex', pattern: '[' })).not.toBeNull();
+  });
+
+  it('rejects domains with paths', () => {
+    expect(validateExclusionRule({ type: 'domain', pattern: 'example.com/path' })).not.toBeNull();
+  });
+});
@@ -0,0 +1,106 @@
+import type { ExclusionRule, TabInfo, TabGroupInfo } from '@/types';
+
+/**
+ * Check whether a tab matches any enabled exclusion rule
+ */
+export function isExcludedTab(
+  tab: TabInfo,
+  rules: ExclusionRule[],
+  groupMap: Map<number, TabGroupInfo>
+): boolean {
+  return rules.some((rule) => rule.enabled && matchesExclusionRule(tab, rule, groupMap));
+}
+
+/**
+ * Check a single rule against a tab
+ * - domain: host or any parent domain ("example.com" matches "mail.example.com");
+ *   a pattern with a port ("localhost:3000") must match host and port
+ * - urlGlob: whole-URL match where * is any run of characters and ? is one
+ * - urlRegex: case-insensitive regex search; invalid patterns never match
+ * - pinned: any pinned tab
+ * - groupTitle: tab group title, case-insensitive
+ */
+export function matchesExclusionRule(
+  tab: TabInfo,
+  rule: ExclusionRule,
+  groupMap: Map<number, TabGroupInfo>
+): boolean {
+  switch (rule.type) {
+    case 'domain':
+      return matchesDomain(tab.url, rule.pattern);
+    case 'urlGlob':
+      return globToRegExp(rule.pattern).test(tab.url);
+    case 'urlRegex': {
+      const regex = safeRegExp(rule.pattern);
+      return regex ? regex.test(tab.url) : false;
+    }
+    case 'pinned':
+      return tab.pinned;
+    case 'groupTitle': {
+      if (tab.groupId === -1) return false;
+      const title = groupMap.get(tab.groupId)?.title;
+      return !!title && title.trim().toLowerCase() === rule.pattern.trim().toLowerCase();
+    }
+  }
+}
+
+/**
+ * Validate a rule before saving it
+ * Returns an error message, or null if the rule is valid.
+ */
+export function validateExclusionRule(rule: Pick<ExclusionRule, 'type' | 'pattern'>): string | null {
+  if (rule.type === 'pinned') return null;
+
+  const pattern = rule.pattern.trim();
+  if (!pattern) return 'Pattern is required';
+
+  if (rule.type === 'urlRegex' && !safeRegExp(pattern)) {
+    return 'Invalid regular expression';
+  }
+
+  if (rule.type === 'domain' && /[/\s]/.test(pattern)) {
+    return 'Enter a domain only, without a path (e.g. mail.google.com)';
+  }
+
+  return null;
+}
+
+function matchesDomain(url: string, pattern: string): boolean {
+  const domain = pattern.trim().toLowerCase();
+  if (!domain) return false;
+
+  try {
+    const parsed = new URL(url);
+    const hostname = parsed.hostname.toLowerCase();
+
+    // Patterns with a port compare against host:port
+    if (domain.includes(':')) {
+      return parsed.host.toLowerCase() === domain;
+    }
+
+    return hostname === domain || hostname.endsWith(`.${domain}`);
+  } catch {
+    return false;
+  }
+}
+
+function globToRegExp(glob: string): RegExp {
+  const source = glob
+    .trim()
+    .split('')
+    .map((char) => {
+      if (char === '*') return '.*';
+      if (char === '?') return '.';
+      return char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    })
+    .join('');
+  return new RegExp(`^${source}$`, 'i');
+}
+
+function safeRegExp(pattern: string): RegExp | null {
+  try {
+    return new RegExp(pattern, 'i');
+  } catch {
+    return null;
+  }
+}
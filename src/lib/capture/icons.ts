@@ -1,9 +1,20 @@
+import { browser, getAction } from '@/lib/browser';
+
 type IconState = 'default' | 'loading' | 'success';
 
 export const ICON_RESET_ALARM = 'icon-reset';
 const SUCCESS_DISPLAY_MS = 5000;
 const ALARM_DELAY_MINUTES = 0.5; // 30 seconds (Chrome minimum for packed extensions)
 
+// Tab threshold badge, kept in session storage so it survives the service
+// worker stopping and can be put back once a capture's badge is cleared
+const THRESHOLD_BADGE_KEY = 'tabThresholdBadge';
+
+interface ThresholdBadge {
+  text: string;
+  color: string;
+}
+
 const ICON_PATHS: Record<IconState, Record<number, string>> = {
   default: {
     16: 'icon/16.png',
@@ -35,11 +46,54 @@ async function clearPendingReset(): Promise<void> {
     clearTimeout(successTimeout);
     successTimeout = null;
   }
-  await chrome.alarms.clear(ICON_RESET_ALARM);
+  await browser.alarms.clear(ICON_RESET_ALARM);
+}
+
+/**
+ * Show the default icon and replace any capture badge with the
+ * tab threshold badge (if one is showing)
+ */
+async function showDefaultIcon(): Promise<void> {
+  await getAction().setIcon({ path: ICON_PATHS.default });
+
+  const badge = await getThresholdBadge();
+  if (badge) {
+    await showBadge(badge);
+  } else {
+    await getAction().setBadgeText({ text: '' });
+  }
+}
+
+async function getThresholdBadge(): Promise<ThresholdBadge | null> {
+  const stored = await browser.storage.session.get(THRESHOLD_BADGE_KEY);
+  return (stored[THRESHOLD_BADGE_KEY] as ThresholdBadge | undefined) ?? null;
+}
+
+async function showBadge({ text, color }: ThresholdBadge): Promise<void> {
+  await getAction().setBadgeBackgroundColor({ color });
+  await getAction().setBadgeText({ text });
+}
+
+/**
+ * Show the tab threshold badge, or clear it (null)
+ * Clearing leaves a capture badge alone.
+ */
+export async function setThresholdBadge(badge: ThresholdBadge | null): Promise<void> {
+  if (badge) {
+    await browser.storage.session.set({ [THRESHOLD_BADGE_KEY]: badge });
+    await showBadge(badge);
+    return;
+  }
+
+  if (await getThresholdBadge()) {
+    await browser.storage.session.remove(THRESHOLD_BADGE_KEY);
+    await getAction().setBadgeText({ text: '' });
+  }
 }
 
 /**
  * Set the extension icon state.
+ * Returning to 'default' also clears the capture badge.
  * For 'success' state, schedules automatic reset to 'default' using:
  * - setTimeout (5 sec) for fast reset when service worker stays alive
  * - chrome.alarms (30 sec) as safety net if service worker terminates
@@ -47,20 +101,25 @@ async function clearPendingReset(): Promise<void> {
 export async function setIconState(state: IconState): Promise<void> {
   await clearPendingReset();
 
-  await chrome.action.setIcon({
+  if (state === 'default') {
+    await showDefaultIcon();
+    return;
+  }
+
+  await getAction().setIcon({
     path: ICON_PATHS[state],
   });
 
   if (state === 'success') {
     // Fast path: setTimeout (works if service worker stays alive)
     successTimeout = setTimeout(async () => {
-      await chrome.alarms.clear(ICON_RESET_ALARM);
-      await chrome.action.setIcon({ path: ICON_PATHS.default });
+      await browser.alarms.clear(ICON_RESET_ALARM);
+      await showDefaultIcon();
       successTimeout = null;
     }, SUCCESS_DISPLAY_MS);
 
     // Safety net: alarm (fires if service worker was terminated)
-    await chrome.alarms.create(ICON_RESET_ALARM, {
+    await browser.alarms.create(ICON_RESET_ALARM, {
       delayInMinutes: ALARM_DELAY_MINUTES,
     });
   }
@@ -74,7 +133,7 @@ export async function handleIconResetAlarm(): Promise<void> {
     clearTimeout(successTimeout);
     successTimeout = null;
   }
-  await chrome.action.setIcon({ path: ICON_PATHS.default });
+  await showDefaultIcon();
 }
 
 /**
@@ -0,0 +1,67 @@
+import { captureAllTabs, isCaptureInProgress } from './capture';
+import { queryTabsForScope, isTabInContext } from './tabs';
+import { getSettings } from '@/lib/settings';
+import { isCapturableUrl, unwrapUrl } from '@/lib/utils/url';
+import { browser } from '@/lib/browser';
+import type { CaptureResult, CaptureScope, Settings } from '@/types';
+
+export const IDLE_HARVEST_ALARM = 'idle-harvest';
+const CHECK_INTERVAL_MINUTES = 30;
+const MIN_THRESHOLD_HOURS = 1;
+
+/**
+ * Create or clear the idle-harvest alarm to match settings.
+ * An existing alarm is left alone so its schedule isn't reset.
+ */
+export async function syncIdleHarvestAlarm(settings: Settings): Promise<void> {
+  const existing = await browser.alarms.get(IDLE_HARVEST_ALARM);
+
+  if (!settings.idleHarvestEnabled) {
+    if (existing) {
+      await browser.alarms.clear(IDLE_HARVEST_ALARM);
+    }
+    return;
+  }
+
+  if (!existing) {
+    await browser.alarms.create(IDLE_HARVEST_ALARM, {
+      delayInMinutes: CHECK_INTERVAL_MINUTES,
+      periodInMinutes: CHECK_INTERVAL_MINUTES,
+    });
+  }
+}
+
+/**
+ * Handle the idle-harvest alarm firing (called from background.ts alarm listener)
+ * Saves and closes tabs unused for longer than the threshold. Pinned, audible,
+ * and active tabs are never harvested. Skips if no tab is idle, so quiet
+ * periods don't fill capture history with empty captures.
+ */
+export async function handleIdleHarvestAlarm(): Promise<CaptureResult | null> {
+  if (isCaptureInProgress()) {
+    return null;
+  }
+
+  const settings = await getSettings();
+  if (!settings.idleHarvestEnabled) {
+    return null;
+  }
+
+  const hours = Math.max(MIN_THRESHOLD_HOURS, settings.idleHarvestThresholdHours);
+  const scope: CaptureScope = { type: 'idle', idleMs: hours * 60 * 60 * 1000 };
+
+  // Only tabs the capture would keep count (not the other kind of window's)
+  const idleTabs = await queryTabsForScope(scope);
+  const hasIdleTab = idleTabs.some(
+    (tab) => isTabInContext(tab) && tab.url && isCapturableUrl(unwrapUrl(tab.url))
+  );
+  if (!hasIdleTab) {
+    return null;
+  }
+
+  return captureAllTabs({
+    scope,
+    closeTabs: true,
+    trigger: 'idle',
+  });
+}
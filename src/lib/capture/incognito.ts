@@ -0,0 +1,40 @@
+import { getSettings } from '@/lib/settings';
+import { clearAllData } from '@/lib/db/clear';
+import { isIncognitoContext } from '@/lib/utils/incognito';
+import { browser } from '@/lib/browser';
+
+/**
+ * Refuse to capture from incognito windows unless the user has opted in
+ * Normal windows are always allowed.
+ */
+export async function assertCaptureAllowed(): Promise<void> {
+  if (!isIncognitoContext()) return;
+
+  const settings = await getSettings();
+  if (!settings.captureIncognito) {
+    throw new Error('Saving incognito tabs is turned off in bmbl settings');
+  }
+}
+
+/**
+ * Clear the incognito backlog once the last incognito window closes (if enabled)
+ * Called from the incognito service worker only. Returns true if cleared.
+ */
+export async function handleIncognitoWindowRemoved(): Promise<boolean> {
+  const settings = await getSettings();
+  if (!settings.clearIncognitoOnClose) {
+    return false;
+  }
+
+  const windows = await browser.windows.getAll();
+  if (windows.some((window) => window.incognito)) {
+    return false;
+  }
+
+  const result = await clearAllData();
+  if (!result.success) {
+    throw new Error(result.error ?? 'Failed to clear incognito backlog');
+  }
+
+  return true;
+}
@@ -1,7 +1,8 @@
-export { captureAllTabs, isCaptureInProgress } from './capture';
+export { captureAllTabs, captureLink, captureClosedWindow, isCaptureInProgress } from './capture';
 export { setIconState, resetIcon } from './icons';
 export {
   queryAllTabs,
+  queryTabsForScope,
   queryAllTabGroups,
   buildGroupMap,
   filterAndTransformTabs,
@@ -0,0 +1,149 @@
+import { db } from '@/lib/db/schema';
+import { isIncognitoContext } from '@/lib/utils/incognito';
+import { normalizeUrl, unwrapUrl } from '@/lib/utils/url';
+import { getSettings } from '@/lib/settings';
+import { resetIcon } from './icons';
+import { queryAllTabs } from './tabs';
+import { browser } from '@/lib/browser';
+import type { CaptureJournal, RecoveredCapture, TabInfo } from '@/types';
+
+// Session storage may be shared with the incognito worker, so each keeps its own journal
+const JOURNAL_KEY = isIncognitoContext() ? 'incognitoCaptureJournal' : 'captureJournal';
+export const RECOVERY_NOTIFICATION_ID = 'capture-recovered';
+
+// Recovery runs once per service worker instance
+let recovery: Promise<RecoveredCapture | null> | null = null;
+
+/**
+ * Start journaling a capture. Acts as the persisted capture lock:
+ * any journal left by a previous service worker is recovered first,
+ * so a journal still present after that belongs to a running capture.
+ */
+export async function beginCaptureJournal(captureId: string): Promise<void> {
+  await ensureCaptureRecovered();
+
+  if (await getCaptureJournal()) {
+    throw new Error('Capture already in progress');
+  }
+
+  const journal: CaptureJournal = {
+    captureId,
+    startedAt: Date.now(),
+    phase: 'saving',
+    tabsToClose: [],
+  };
+  await browser.storage.session.set({ [JOURNAL_KEY]: journal });
+}
+
+/**
+ * Record the tabs a capture is about to close, before its save starts
+ */
+export async function setJournalTabsToClose(tabs: TabInfo[]): Promise<void> {
+  await updateJournal({
+    tabsToClose: tabs
+      .filter((tab) => !tab.pinned)
+      .map(({ tabId, url, windowId }) => ({ tabId, url, windowId })),
+  });
+}
+
+/**
+ * Record that a capture has been saved and is closing its tabs
+ */
+export async function markJournalClosing(): Promise<void> {
+  await updateJournal({ phase: 'closing' });
+}
+
+/**
+ * Finish journaling (the capture completed or failed in this worker)
+ */
+export async function endCaptureJournal(): Promise<void> {
+  await browser.storage.session.remove(JOURNAL_KEY);
+}
+
+/**
+ * Get the journal of the running (or interrupted) capture, if any
+ */
+export async function getCaptureJournal(): Promise<CaptureJournal | null> {
+  const stored = await browser.storage.session.get(JOURNAL_KEY);
+  return (stored[JOURNAL_KEY] as CaptureJournal | undefined) ?? null;
+}
+
+async function updateJournal(updates: Partial<CaptureJournal>): Promise<void> {
+  const journal = await getCaptureJournal();
+  if (journal) {
+    await browser.storage.session.set({ [JOURNAL_KEY]: { ...journal, ...updates } });
+  }
+}
+
+/**
+ * Recover a capture interrupted in a previous service worker, once
+ * (called from background.ts on startup and before each capture)
+ */
+export function ensureCaptureRecovered(): Promise<RecoveredCapture | null> {
+  // A failed recovery is retried by the next caller rather than cached
+  recovery ??= recoverInterruptedCapture().catch((error) => {
+    recovery = null;
+    throw error;
+  });
+  return recovery;
+}
+
+/**
+ * Clean up after a journal left behind by a stopped service worker.
+ * The save is a single transaction, and tabs are only closed after it,
+ * so the capture either exists or no tab was closed:
+ * - Saved: close the journaled tabs that are still open (same URL),
+ *   except those whose URL failed to save
+ * - Not saved: nothing to undo
+ * Reports the outcome with a notification.
+ */
+async function recoverInterruptedCapture(): Promise<RecoveredCapture | null> {
+  const journal = await getCaptureJournal();
+  if (!journal) {
+    return null;
+  }
+
+  const capture = await db.captures.get(journal.captureId);
+  const saved = capture !== undefined;
+  let tabsClosed = 0;
+
+  if (capture) {
+    const { urlNormalization } = await getSettings();
+    const failedUrls = new Set(
+      capture.failures.map((failure) => normalizeUrl(failure.url, urlNormalization))
+    );
+    const openTabs = new Map(
+      (await queryAllTabs()).map((tab) => [tab.id, tab.url && unwrapUrl(tab.url)])
+    );
+    const toClose = journal.tabsToClose.filter(
+      (tab) =>
+        openTabs.get(tab.tabId) === tab.url &&
+        !failedUrls.has(normalizeUrl(tab.url, urlNormalization))
+    );
+
+    if (toClose.length > 0) {
+      await browser.tabs.remove(toClose.map((tab) => tab.tabId));
+      tabsClosed = toClose.length;
+    }
+  }
+
+  await endCaptureJournal();
+  await resetIcon();
+
+  const result: RecoveredCapture = {
+    captureId: journal.captureId,
+    saved,
+    tabsClosed,
+  };
+
+  await browser.notifications.create(RECOVERY_NOTIFICATION_ID, {
+    type: 'basic',
+    iconUrl: browser.runtime.getURL('/icon/128.png'),
+    title: 'A capture was interrupted',
+    message: saved
+      ? `Your tabs were saved.${tabsClosed > 0 ? ` Closed ${tabsClosed} tab${tabsClosed !== 1 ? 's' : ''} it had not closed yet.` : ''}`
+      : 'Nothing was saved and no tabs were closed, so please capture again.',
+  });
+
+  return result;
+}
@@ -0,0 +1,88 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { fakeBrowser } from 'wxt/testing';
+import { syncUrlNormalization } from './normalization';
+import { isCaptureInProgress, runWithCaptureLock } from './capture';
+import { getSettings } from '@/lib/settings';
+import { renormalizeItems } from '@/lib/db/renormalize';
+import { URL_NORMALIZATION_VERSION } from '@/lib/utils/url';
+import { DEFAULT_SETTINGS, DEFAULT_URL_NORMALIZATION } from '@/types';
+import type { Settings } from '@/types';
+
+vi.mock('@/lib/settings', () => ({ getSettings: vi.fn() }));
+vi.mock('@/lib/db/renormalize', () => ({ renormalizeItems: vi.fn() }));
+
+const CHANGED_RULES = { ...DEFAULT_URL_NORMALIZATION, foldWww: true };
+
+// Settings that arrive only when the test releases them
+function deferSettings(settings: Settings): () => void {
+  let release!: () => void;
+  vi.mocked(getSettings).mockReturnValue(
+    new Promise((resolve) => {
+      release = () => resolve(settings);
+    })
+  );
+  return () => release();
+}
+
+async function flushPromises(): Promise<void> {
+  await new Promise((resolve) => setTimeout(resolve, 0));
+}
+
+describe('syncUrlNormalization', () => {
+  beforeEach(() => {
+    fakeBrowser.reset();
+    vi.mocked(getSettings).mockReset();
+    vi.mocked(renormalizeItems).mockReset();
+  });
+
+  it('lets a capture through while checking unchanged rules', async () => {
+    await fakeBrowser.storage.local.set({
+      appliedUrlNormalization: { version: URL_NORMALIZATION_VERSION, rules: DEFAULT_URL_NORMALIZATION },
+    });
+    const release = deferSettings(DEFAULT_SETTINGS);
+
+    const sync = syncUrlNormalization();
+    await flushPromises();
+
+    expect(isCaptureInProgress()).toBe(false);
+    await expect(runWithCaptureLock(async () => 'captured')).resolves.toBe('captured');
+
+    release();
+    await expect(sync).resolves.toBeNull();
+    expect(renormalizeItems).not.toHaveBeenCalled();
+  });
+
+  it('re-normalizes under the capture lock when the rules changed', async () => {
+    await fakeBrowser.storage.local.set({
+      appliedUrlNormalization: { version: URL_NORMALIZATION_VERSION, rules: DEFAULT_URL_NORMALIZATION },
+    });
+    vi.mocked(getSettings).mockResolvedValue({ ...DEFAULT_SETTINGS, urlNormalization: CHANGED_RULES });
+    vi.mocked(renormalizeItems).mockImplementation(async () => {
+      expect(isCaptureInProgress()).toBe(true);
+      return { itemsUpdated: 2, itemsMerged: 1 };
+    });
+
+    await expect(syncUrlNormalization()).resolves.toEqual({ itemsUpdated: 2, itemsMerged: 1 });
+
+    expect(renormalizeItems).toHaveBeenCalledWith(CHANGED_RULES);
+    const stored = await fakeBrowser.storage.local.get('appliedUrlNormalization');
+    expect(stored.appliedUrlNormalization).toEqual({
+      version: URL_NORMALIZATION_VERSION,
+      rules: CHANGED_RULES,
+    });
+    expect(isCaptureInProgress()).toBe(false);
+  });
+
+  it('re-keys items once when the fixed rules changed', async () => {
+    // Bare rules were stored before the fixed rules were versioned
+    await fakeBrowser.storage.local.set({ appliedUrlNormalization: DEFAULT_URL_NORMALIZATION });
+    vi.mocked(getSettings).mockResolvedValue(DEFAULT_SETTINGS);
+    vi.mocked(renormalizeItems).mockResolvedValue({ itemsUpdated: 1, itemsMerged: 1 });
+
+    await expect(syncUrlNormalization()).resolves.toEqual({ itemsUpdated: 1, itemsMerged: 1 });
+    await expect(syncUrlNormalization()).resolves.toBeNull();
+
+    expect(renormalizeItems).toHaveBeenCalledTimes(1);
+    expect(renormalizeItems).toHaveBeenCalledWith(DEFAULT_URL_NORMALIZATION);
+  });
+});
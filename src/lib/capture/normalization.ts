@@ -0,0 +1,88 @@
+import { renormalizeItems } from '@/lib/db/renormalize';
+import { getSettings } from '@/lib/settings';
+import { isIncognitoContext } from '@/lib/utils/incognito';
+import { URL_NORMALIZATION_VERSION } from '@/lib/utils/url';
+import { browser } from '@/lib/browser';
+import type { RenormalizeResult } from '@/lib/db/renormalize';
+import type { UrlNormalizationRules } from '@/types';
+import { DEFAULT_URL_NORMALIZATION } from '@/types';
+import { runWithCaptureLock } from './capture';
+
+// Each context has its own database, so each tracks the rules it last applied
+const APPLIED_RULES_KEY = isIncognitoContext()
+  ? 'incognitoAppliedUrlNormalization'
+  : 'appliedUrlNormalization';
+
+/**
+ * What saved items were last normalized with
+ * (stored as bare rules before the fixed rules were versioned)
+ */
+interface AppliedNormalization {
+  version: number;
+  rules: UrlNormalizationRules;
+}
+
+// Re-normalization runs one at a time, in the order settings changed
+let queue: Promise<unknown> = Promise.resolve();
+
+/**
+ * Re-normalize saved items when the URL normalization rules change
+ * (called from background.ts on startup and on settings changes).
+ * The rules are compared without the capture lock, so the event that woke
+ * the worker is not turned away; only an actual pass waits for and holds it,
+ * re-reading the rules once it does so they are current.
+ * Returns null if the rules already match what was last applied.
+ */
+export function syncUrlNormalization(): Promise<RenormalizeResult | null> {
+  const run = queue.then(async () => {
+    if (!(await getPendingRules())) {
+      return null;
+    }
+
+    return runWithCaptureLock(async () => {
+      const rules = await getPendingRules();
+      return rules ? applyUrlNormalization(rules) : null;
+    }, true);
+  });
+  queue = run.catch(() => undefined);
+  return run;
+}
+
+/**
+ * The current rules if they or the fixed rules differ from the ones
+ * last applied, else null
+ */
+async function getPendingRules(): Promise<UrlNormalizationRules | null> {
+  const [settings, stored] = await Promise.all([
+    getSettings(),
+    browser.storage.local.get(APPLIED_RULES_KEY),
+  ]);
+  const rules = settings.urlNormalization;
+  const applied = readApplied(stored[APPLIED_RULES_KEY]);
+
+  // A key-order difference only costs a pass that changes nothing
+  const unchanged = applied.version === URL_NORMALIZATION_VERSION
+    && JSON.stringify(applied.rules) === JSON.stringify(rules);
+  return unchanged ? null : rules;
+}
+
+function readApplied(value: unknown): AppliedNormalization {
+  if (value && typeof value === 'object' && 'version' in value) {
+    return value as AppliedNormalization;
+  }
+  // Items saved before rules existed were normalized with the defaults,
+  // and bare rules predate versioning
+  return {
+    version: 1,
+    rules: (value as UrlNormalizationRules | undefined) ?? DEFAULT_URL_NORMALIZATION,
+  };
+}
+
+async function applyUrlNormalization(
+  rules: UrlNormalizationRules
+): Promise<RenormalizeResult> {
+  const result = await renormalizeItems(rules);
+  const applied: AppliedNormalization = { version: URL_NORMALIZATION_VERSION, rules };
+  await browser.storage.local.set({ [APPLIED_RULES_KEY]: applied });
+  return result;
+}
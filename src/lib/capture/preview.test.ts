@@ -0,0 +1,44 @@
+import { describe, it, expect } from 'vitest';
+import { findSkippedTabs } from './preview';
+import { filterAndTransformTabs } from './tabs';
+
+function makeChromeTab(id: number, url: string, incognito = false): chrome.tabs.Tab {
+  return {
+    id,
+    windowId: incognito ? 2 : 1,
+    index: id,
+    url,
+    title: `Tab ${id}`,
+    pinned: false,
+    highlighted: false,
+    active: false,
+    incognito,
+    selected: false,
+    discarded: false,
+    autoDiscardable: true,
+    groupId: -1,
+    frozen: false,
+  } as chrome.tabs.Tab;
+}
+
+describe('findSkippedTabs', () => {
+  // Firefox's spanning incognito mode queries private windows too
+  const tabs = [
+    makeChromeTab(1, 'https://example.com/a'),
+    makeChromeTab(2, 'chrome://settings'),
+    makeChromeTab(3, 'https://example.com/private', true),
+    makeChromeTab(4, 'about:privatebrowsing', true),
+  ];
+
+  it('lists internal pages but not private-window tabs in a normal preview', () => {
+    const { capturableTabs } = filterAndTransformTabs(tabs, [], new Map(), false);
+
+    expect(findSkippedTabs(tabs, capturableTabs, false).map((tab) => tab.id)).toEqual([2]);
+  });
+
+  it('lists only incognito internal pages in an incognito preview', () => {
+    const { capturableTabs } = filterAndTransformTabs(tabs, [], new Map(), true);
+
+    expect(findSkippedTabs(tabs, capturableTabs, true).map((tab) => tab.id)).toEqual([4]);
+  });
+});
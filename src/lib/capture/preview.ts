@@ -0,0 +1,75 @@
+import { isExcludedTab } from './exclusions';
+import {
+  queryAllTabs,
+  queryAllTabGroups,
+  buildGroupMap,
+  filterAndTransformTabs,
+  aggregateTabsByUrl,
+  isTabInContext,
+} from './tabs';
+import { isIncognitoContext } from '@/lib/utils/incognito';
+import { getSettings } from '@/lib/settings';
+import { getAction } from '@/lib/browser';
+import type { AggregatedTab, Settings, TabInfo } from '@/types';
+
+export const PREVIEW_POPUP = 'preview.html';
+
+/**
+ * Show the capture preview popup on toolbar click, or capture instantly
+ * (an empty popup makes Chrome fire action.onClicked instead)
+ */
+export async function syncActionPopup(settings: Settings): Promise<void> {
+  await getAction().setPopup({
+    popup: settings.actionMode === 'preview' ? PREVIEW_POPUP : '',
+  });
+}
+
+export interface CapturePreview {
+  aggregatedTabs: AggregatedTab[]; // What would be saved, duplicates merged
+  skippedTabs: chrome.tabs.Tab[]; // Internal pages, never saved
+  excludedTabs: TabInfo[]; // Matched by exclusion rules
+}
+
+/**
+ * Work out what capturing all tabs would save, without saving anything
+ */
+export async function buildCapturePreview(): Promise<CapturePreview> {
+  const settings = await getSettings();
+  const [allTabs, allGroups] = await Promise.all([queryAllTabs(), queryAllTabGroups()]);
+  const groupMap = buildGroupMap(allGroups);
+
+  // Rules are applied separately so excluded tabs can be listed
+  const { capturableTabs } = filterAndTransformTabs(allTabs, [], groupMap);
+
+  const includedTabs: TabInfo[] = [];
+  const excludedTabs: TabInfo[] = [];
+  for (const tab of capturableTabs) {
+    if (isExcludedTab(tab, settings.exclusionRules, groupMap)) {
+      excludedTabs.push(tab);
+    } else {
+      includedTabs.push(tab);
+    }
+  }
+
+  return {
+    aggregatedTabs: aggregateTabsByUrl(includedTabs, groupMap, settings.urlNormalization),
+    skippedTabs: findSkippedTabs(allTabs, capturableTabs),
+    excludedTabs,
+  };
+}
+
+/**
+ * Tabs a capture would skip as internal pages
+ * Tabs from the other kind of window (e.g. private windows in Firefox,
+ * where one context sees both) are left out, as they are from captures.
+ */
+export function findSkippedTabs(
+  allTabs: chrome.tabs.Tab[],
+  capturableTabs: TabInfo[],
+  incognito: boolean = isIncognitoContext()
+): chrome.tabs.Tab[] {
+  const capturableIds = new Set(capturableTabs.map((tab) => tab.tabId));
+  return allTabs.filter(
+    (tab) => isTabInContext(tab, incognito) && (tab.id === undefined || !capturableIds.has(tab.id))
+  );
+}
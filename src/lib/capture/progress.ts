@@ -0,0 +1,33 @@
+import { browser, getAction } from '@/lib/browser';
+import type { CaptureProgress, CaptureProgressMessage, CaptureResult } from '@/types';
+
+const BADGE_COLOR = '#7c3aed';
+
+/**
+ * Send capture progress to open extension pages and show it on the badge
+ * Fire-and-forget (never awaited), so it is safe to call inside a Dexie transaction.
+ */
+export function reportCaptureProgress(progress: CaptureProgress): void {
+  const message: CaptureProgressMessage = { type: 'CAPTURE_PROGRESS', progress };
+
+  // Rejects when no extension page is open to receive it
+  browser.runtime.sendMessage(message).catch(() => {});
+
+  const percent = progress.total > 0
+    ? Math.floor((progress.processed / progress.total) * 100)
+    : 100;
+  setBadge(`${percent}%`);
+}
+
+/**
+ * Show a finished capture's tab count on the badge
+ * Cleared along with the success icon.
+ */
+export function showCaptureTotal(result: CaptureResult): void {
+  setBadge(String(result.tabCountCaptured));
+}
+
+function setBadge(text: string): void {
+  getAction().setBadgeBackgroundColor({ color: BADGE_COLOR }).catch(() => {});
+  getAction().setBadgeText({ text }).catch(() => {});
+}
@@ -0,0 +1,91 @@
+import { describe, it, expect } from 'vitest';
+import { planRestoreWindows } from './restore';
+import { createItemFromTab } from '@/lib/db/items';
+import { NOT_DELETED } from '@/types';
+import type { CaptureEntry } from '@/lib/db/captures';
+import type { CaptureEvent } from '@/types';
+
+const NOW = 1_700_000_000_000;
+
+function makeEntry(url: string, overrides: Partial<CaptureEvent> = {}): CaptureEntry {
+  const itemId = `item-${url}`;
+  return {
+    item: { itemId, ...createItemFromTab(url, 'Title', null, 1) },
+    event: {
+      captureId: 'capture',
+      itemId,
+      capturedAt: NOW,
+      tabCount: 1,
+      windowIds: [1],
+      tabIds: [10],
+      pinnedAny: false,
+      groupId: null,
+      groupTitle: null,
+      groupColor: null,
+      createdItem: false,
+      resurfacedFrom: NOT_DELETED,
+      idleMs: null,
+      previousLastSavedAt: 0,
+      tagsAdded: [],
+      ...overrides,
+    },
+  };
+}
+
+describe('planRestoreWindows', () => {
+  it('opens one window per original window', () => {
+    const windows = planRestoreWindows([
+      makeEntry('https://example.com/a', { windowIds: [1] }),
+      makeEntry('https://example.com/b', { windowIds: [2] }),
+      makeEntry('https://example.com/c', { windowIds: [1] }),
+    ]);
+
+    expect(windows.map((w) => w.tabs.map((tab) => tab.url))).toEqual([
+      ['https://example.com/a', 'https://example.com/c'],
+      ['https://example.com/b'],
+    ]);
+  });
+
+  it('opens a URL once per captured tab, in the windows it was open in', () => {
+    const windows = planRestoreWindows([
+      makeEntry('https://example.com/a', { tabCount: 3, windowIds: [1, 2] }),
+    ]);
+
+    expect(windows.map((w) => w.tabs.length)).toEqual([2, 1]);
+  });
+
+  it('puts pinned tabs first, then each group together, then ungrouped tabs', () => {
+    const [window] = planRestoreWindows([
+      makeEntry('https://example.com/loose'),
+      makeEntry('https://example.com/g1', { groupId: 5, groupTitle: 'Research', groupColor: 'blue' }),
+      makeEntry('https://example.com/pinned', { pinnedAny: true }),
+      makeEntry('https://example.com/g2', { groupId: 5, groupTitle: 'Research', groupColor: 'blue' }),
+    ]);
+
+    expect(window.tabs.map((tab) => tab.url)).toEqual([
+      'https://example.com/pinned',
+      'https://example.com/g1',
+      'https://example.com/g2',
+      'https://example.com/loose',
+    ]);
+    expect(window.groups).toEqual([{ key: '1:5', title: 'Research', color: 'blue' }]);
+    expect(window.tabs[0].pinned).toBe(true);
+  });
+
+  it('keeps pinned tabs out of groups', () => {
+    const [window] = planRestoreWindows([
+      makeEntry('https://example.com/a', { pinnedAny: true, groupId: 5, groupTitle: 'Research' }),
+    ]);
+
+    expect(window.tabs).toEqual([{ url: 'https://example.com/a', pinned: true, groupKey: null }]);
+    expect(window.groups).toEqual([]);
+  });
+
+  it('applies pinned status and group to a URL\'s first tab only', () => {
+    const [window] = planRestoreWindows([
+      makeEntry('https://example.com/a', { tabCount: 2, windowIds: [1], groupId: 5 }),
+    ]);
+
+    expect(window.tabs.map((tab) => tab.groupKey)).toEqual(['1:5', null]);
+  });
+});
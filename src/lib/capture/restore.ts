@@ -0,0 +1,140 @@
+import { getCaptureEntries, type CaptureEntry } from '@/lib/db/captures';
+import { browser, hasTabGroups } from '@/lib/browser';
+import type { RestoreResult } from '@/types';
+
+interface PlannedTab {
+  url: string;
+  pinned: boolean;
+  groupKey: string | null;
+}
+
+interface PlannedGroup {
+  key: string;
+  title: string | null;
+  color: string | null;
+}
+
+interface PlannedWindow {
+  tabs: PlannedTab[];
+  groups: PlannedGroup[];
+}
+
+// Tabs of one window, bucketed before being laid out in order
+interface WindowBuckets {
+  pinned: PlannedTab[];
+  grouped: Map<string, PlannedTab[]>;
+  ungrouped: PlannedTab[];
+  groups: PlannedGroup[];
+}
+
+/**
+ * Reopen a capture as a session: one new window per original window,
+ * with tab groups recreated (title and color) and pinned tabs re-pinned.
+ */
+export async function restoreCapture(captureId: string): Promise<RestoreResult> {
+  const entries = await getCaptureEntries(captureId);
+  if (entries.length === 0) {
+    throw new Error('Nothing to restore for this capture');
+  }
+
+  const plannedWindows = planRestoreWindows(entries);
+  let tabsOpened = 0;
+  let groupsCreated = 0;
+
+  for (const plannedWindow of plannedWindows) {
+    const window = await browser.windows.create({
+      url: plannedWindow.tabs.map((tab) => tab.url),
+      focused: false,
+    });
+    if (!window) continue;
+    const tabIds = (window.tabs ?? []).map((tab) => tab.id);
+    tabsOpened += tabIds.length;
+
+    // Re-pin (pinned tabs are planned first, so order is preserved)
+    for (const [i, tab] of plannedWindow.tabs.entries()) {
+      const tabId = tabIds[i];
+      if (tab.pinned && tabId !== undefined) {
+        await browser.tabs.update(tabId, { pinned: true });
+      }
+    }
+
+    // Recreate tab groups (not available in every browser)
+    if (hasTabGroups()) {
+      for (const group of plannedWindow.groups) {
+        const groupTabIds = plannedWindow.tabs
+          .map((tab, i) => (tab.groupKey === group.key ? tabIds[i] : undefined))
+          .filter((tabId): tabId is number => tabId !== undefined);
+        const [firstTabId, ...restTabIds] = groupTabIds;
+        if (firstTabId === undefined) continue;
+
+        try {
+          const groupId = await browser.tabs.group({
+            tabIds: [firstTabId, ...restTabIds],
+            createProperties: { windowId: window.id },
+          });
+          await browser.tabGroups.update(groupId, {
+            ...(group.title && { title: group.title }),
+            ...(group.color && { color: group.color as `${chrome.tabGroups.Color}` }),
+          });
+          groupsCreated++;
+        } catch (error) {
+          console.error('Failed to recreate tab group:', error);
+        }
+      }
+    }
+  }
+
+  return {
+    captureId,
+    windowsOpened: plannedWindows.length,
+    tabsOpened,
+    groupsCreated,
+  };
+}
+
+/**
+ * Split a capture's entries back into windows
+ *
+ * Events only record per-URL metadata, so per-tab detail is approximated:
+ * - each URL is opened once per captured tab, in that tab's original window
+ * - pinned status and group membership apply to the URL's first tab
+ * - within a window: pinned tabs first, then each group contiguously,
+ *   then ungrouped tabs
+ */
+export function planRestoreWindows(entries: CaptureEntry[]): PlannedWindow[] {
+  const windows = new Map<number | null, WindowBuckets>();
+
+  for (const { item: { url }, event } of entries) {
+    for (let i = 0; i < event.tabCount; i++) {
+      const windowId = event.windowIds[i] ?? event.windowIds[0] ?? null;
+      const isFirstTab = i === 0;
+      const groupKey = isFirstTab && event.groupId !== null ? `${windowId}:${event.groupId}` : null;
+
+      let plannedWindow = windows.get(windowId);
+      if (!plannedWindow) {
+        plannedWindow = { pinned: [], grouped: new Map(), ungrouped: [], groups: [] };
+        windows.set(windowId, plannedWindow);
+      }
+
+      const tab: PlannedTab = { url, pinned: isFirstTab && event.pinnedAny, groupKey };
+
+      if (tab.pinned) {
+        // Chrome does not allow pinned tabs inside groups
+        plannedWindow.pinned.push({ ...tab, groupKey: null });
+      } else if (groupKey) {
+        if (!plannedWindow.grouped.has(groupKey)) {
+          plannedWindow.grouped.set(groupKey, []);
+          plannedWindow.groups.push({ key: groupKey, title: event.groupTitle, color: event.groupColor });
+        }
+        plannedWindow.grouped.get(groupKey)!.push(tab);
+      } else {
+        plannedWindow.ungrouped.push(tab);
+      }
+    }
+  }
+
+  return Array.from(windows.values()).map((w) => ({
+    tabs: [...w.pinned, ...w.groups.flatMap((g) => w.grouped.get(g.key)!), ...w.ungrouped],
+    groups: w.groups,
+  }));
+}
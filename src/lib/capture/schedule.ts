@@ -0,0 +1,105 @@
+import { captureAllTabs, isCaptureInProgress } from './capture';
+import { getSettings } from '@/lib/settings';
+import { browser } from '@/lib/browser';
+import type { CaptureResult, Settings } from '@/types';
+
+export const AUTO_CAPTURE_ALARM = 'auto-capture';
+const MINUTES_PER_DAY = 24 * 60;
+const MIN_INTERVAL_HOURS = 1;
+
+/**
+ * Create, replace, or clear the auto-capture alarm to match settings.
+ * Called on install and whenever settings change; an alarm that already
+ * matches is left alone so unrelated setting changes don't reset its timer.
+ */
+export async function syncAutoCaptureAlarm(settings: Settings): Promise<void> {
+  const existing = await browser.alarms.get(AUTO_CAPTURE_ALARM);
+
+  switch (settings.autoCaptureSchedule) {
+    case 'off':
+      if (existing) {
+        await browser.alarms.clear(AUTO_CAPTURE_ALARM);
+      }
+      return;
+
+    case 'interval': {
+      const hours = Math.max(MIN_INTERVAL_HOURS, settings.autoCaptureIntervalHours);
+      if (existing?.periodInMinutes === hours * 60) {
+        return;
+      }
+      await browser.alarms.create(AUTO_CAPTURE_ALARM, {
+        delayInMinutes: hours * 60,
+        periodInMinutes: hours * 60,
+      });
+      return;
+    }
+
+    case 'daily': {
+      const when = getNextDailyTime(settings.autoCaptureDailyTime, Date.now());
+      if (
+        existing?.periodInMinutes === MINUTES_PER_DAY &&
+        formatLocalTime(existing.scheduledTime) === formatLocalTime(when)
+      ) {
+        return;
+      }
+      await browser.alarms.create(AUTO_CAPTURE_ALARM, {
+        when,
+        periodInMinutes: MINUTES_PER_DAY,
+      });
+      return;
+    }
+  }
+}
+
+/**
+ * Format a timestamp as local "HH:MM"
+ */
+function formatLocalTime(timestamp: number): string {
+  const date = new Date(timestamp);
+  const hours = String(date.getHours()).padStart(2, '0');
+  const minutes = String(date.getMinutes()).padStart(2, '0');
+  return `${hours}:${minutes}`;
+}
+
+/**
+ * Get the next timestamp (after `now`) at the given local "HH:MM" time.
+ * Falls back to midnight if the time string is malformed.
+ */
+export function getNextDailyTime(time: string, now: number): number {
+  const [hours, minutes] = time.split(':').map((part) => parseInt(part, 10));
+
+  const next = new Date(now);
+  next.setHours(
+    Number.isFinite(hours) ? hours : 0,
+    Number.isFinite(minutes) ? minutes : 0,
+    0,
+    0
+  );
+
+  if (next.getTime() <= now) {
+    next.setDate(next.getDate() + 1);
+  }
+
+  return next.getTime();
+}
+
+/**
+ * Handle the auto-capture alarm firing (called from background.ts alarm listener)
+ * Snapshots never close tabs. Skips silently if a capture is already running.
+ */
+export async function handleAutoCaptureAlarm(): Promise<CaptureResult | null> {
+  if (isCaptureInProgress()) {
+    return null;
+  }
+
+  const settings = await getSettings();
+  if (settings.autoCaptureSchedule === 'off') {
+    return null;
+  }
+
+  return captureAllTabs({
+    closeTabs: false,
+    trigger: 'scheduled',
+    countSaves: settings.autoCaptureCountsSaves,
+  });
+}
@@ -0,0 +1,149 @@
+import { captureAllTabs, isCaptureInProgress } from './capture';
+import { resetIcon, setThresholdBadge } from './icons';
+import { queryAllTabs, queryAllTabGroups, buildGroupMap, filterAndTransformTabs } from './tabs';
+import { getSettings } from '@/lib/settings';
+import { browser, hasNotificationButtons } from '@/lib/browser';
+import type { CaptureResult } from '@/types';
+
+export const THRESHOLD_NOTIFICATION_ID = 'tab-threshold';
+const SAVE_AND_CLOSE_BUTTON = 0;
+
+const EXCEEDED_KEY = 'tabThresholdExceeded';
+const CHECK_DELAY_MS = 500;
+const BADGE_WARNING_RATIO = 0.8; // Show the count once this close to the threshold
+const BADGE_COLOR_WARNING = '#f59e0b';
+const BADGE_COLOR_EXCEEDED = '#dc2626';
+
+let checkTimeout: ReturnType<typeof setTimeout> | null = null;
+
+/**
+ * Count open tabs that a capture would save
+ * Internal pages and tabs matching exclusion rules don't count.
+ */
+async function countCapturableTabs(): Promise<number> {
+  const settings = await getSettings();
+  const [tabs, groups] = await Promise.all([queryAllTabs(), queryAllTabGroups()]);
+  const { capturableTabs } = filterAndTransformTabs(
+    tabs,
+    settings.exclusionRules,
+    buildGroupMap(groups)
+  );
+  return capturableTabs.length;
+}
+
+/**
+ * Show the tab count on the action badge while near or over the threshold
+ */
+async function updateBadge(count: number, threshold: number): Promise<void> {
+  if (count < Math.floor(threshold * BADGE_WARNING_RATIO)) {
+    await setThresholdBadge(null);
+    return;
+  }
+
+  await setThresholdBadge({
+    text: String(count),
+    color: count > threshold ? BADGE_COLOR_EXCEEDED : BADGE_COLOR_WARNING,
+  });
+}
+
+/**
+ * Schedule a threshold check (called from background.ts tab listeners)
+ * Debounced so that opening or closing many tabs at once, e.g. during
+ * a capture, only triggers one check.
+ */
+export function scheduleTabThresholdCheck(): void {
+  if (checkTimeout) {
+    clearTimeout(checkTimeout);
+  }
+
+  checkTimeout = setTimeout(async () => {
+    checkTimeout = null;
+
+    try {
+      const result = await checkTabThreshold();
+
+      if (result) {
+        // Signal capture complete via storage (for live refresh in new tab pages)
+        await browser.storage.local.set({ lastCaptureTime: Date.now() });
+      }
+    } catch (error) {
+      console.error('Tab threshold check failed:', error);
+      await resetIcon();
+    }
+  }, CHECK_DELAY_MS);
+}
+
+/**
+ * Update the badge and act when the tab count passes the threshold.
+ * Only acts on crossing: the threshold re-arms once the count drops
+ * back to or below it. Returns the capture result if one was taken.
+ */
+export async function checkTabThreshold(): Promise<CaptureResult | null> {
+  const settings = await getSettings();
+
+  if (settings.tabThresholdAction === 'off') {
+    await setThresholdBadge(null);
+    await browser.storage.session.remove(EXCEEDED_KEY);
+    return null;
+  }
+
+  const count = await countCapturableTabs();
+  await updateBadge(count, settings.tabThreshold);
+
+  const stored = await browser.storage.session.get(EXCEEDED_KEY);
+  const wasExceeded = stored[EXCEEDED_KEY] === true;
+  const isExceeded = count > settings.tabThreshold;
+
+  if (isExceeded === wasExceeded) {
+    return null;
+  }
+
+  await browser.storage.session.set({ [EXCEEDED_KEY]: isExceeded });
+
+  if (!isExceeded) {
+    await browser.notifications.clear(THRESHOLD_NOTIFICATION_ID);
+    return null;
+  }
+
+  if (settings.tabThresholdAction === 'notify') {
+    await browser.notifications.create(THRESHOLD_NOTIFICATION_ID, {
+      type: 'basic',
+      iconUrl: browser.runtime.getURL('/icon/128.png'),
+      title: `${count} tabs open`,
+      message: `You've passed your limit of ${settings.tabThreshold} tabs.`,
+      // Firefox notifications have no buttons and close on their own
+      ...(hasNotificationButtons() && {
+        buttons: [{ title: 'Save & close all' }],
+        requireInteraction: true,
+      }),
+    });
+    return null;
+  }
+
+  if (isCaptureInProgress()) {
+    return null;
+  }
+
+  return captureAllTabs({ trigger: 'threshold' });
+}
+
+/**
+ * Handle a button click on the threshold notification
+ * (called from background.ts notification listener)
+ */
+export async function handleThresholdNotificationButton(
+  notificationId: string,
+  buttonIndex: number
+): Promise<CaptureResult | null> {
+  if (notificationId !== THRESHOLD_NOTIFICATION_ID || buttonIndex !== SAVE_AND_CLOSE_BUTTON) {
+    return null;
+  }
+
+  await browser.notifications.clear(THRESHOLD_NOTIFICATION_ID);
+
+  if (isCaptureInProgress()) {
+    return null;
+  }
+
+  return captureAllTabs({ closeTabs: true, trigger: 'threshold' });
+}
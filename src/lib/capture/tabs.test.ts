@@ -0,0 +1,56 @@
+import { describe, it, expect } from 'vitest';
+import { filterAndTransformTabs } from './tabs';
+
+function makeChromeTab(id: number, url: string, incognito = false): chrome.tabs.Tab {
+  return {
+    id,
+    windowId: 1,
+    index: id,
+    url,
+    title: `Tab ${id}`,
+    pinned: false,
+    highlighted: false,
+    active: false,
+    incognito,
+    selected: false,
+    discarded: false,
+    autoDiscardable: true,
+    groupId: -1,
+    frozen: false,
+  } as chrome.tabs.Tab;
+}
+
+describe('filterAndTransformTabs', () => {
+  const tabs = [
+    makeChromeTab(1, 'https://example.com/a'),
+    makeChromeTab(2, 'https://example.com/private', true),
+    makeChromeTab(3, 'chrome://settings'),
+  ];
+
+  it('drops incognito tabs from normal captures without counting them', () => {
+    const { capturableTabs, skippedCount } = filterAndTransformTabs(tabs, [], new Map(), false);
+
+    expect(capturableTabs.map((tab) => tab.tabId)).toEqual([1]);
+    expect(skippedCount).toBe(1);
+  });
+
+  it('keeps only incognito tabs in incognito captures', () => {
+    const { capturableTabs, skippedCount } = filterAndTransformTabs(tabs, [], new Map(), true);
+
+    expect(capturableTabs.map((tab) => tab.tabId)).toEqual([2]);
+    expect(skippedCount).toBe(0);
+  });
+});
+
+describe('filterAndTransformTabs unwrapping', () => {
+  it('captures the page behind a suspended tab', () => {
+    const suspended = makeChromeTab(
+      4,
+      'chrome-extension://abc/suspended.html#ttl=Page&uri=https://example.com/page'
+    );
+    const { capturableTabs, skippedCount } = filterAndTransformTabs([suspended], [], new Map(), false);
+
+    expect(capturableTabs[0].url).toBe('https://example.com/page');
+    expect(skippedCount).toBe(0);
+  });
+});
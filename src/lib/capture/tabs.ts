@@ -1,19 +1,84 @@
-import type { TabInfo, TabGroupInfo, AggregatedTab } from '@/types';
-import { isCapturableUrl, normalizeUrl } from '@/lib/utils/url';
+import { browser, hasTabGroups } from '@/lib/browser';
+import type {
+  TabInfo,
+  TabGroupInfo,
+  AggregatedTab,
+  CaptureScope,
+  ExclusionRule,
+  UrlNormalizationRules,
+} from '@/types';
+import { DEFAULT_URL_NORMALIZATION } from '@/types';
+import { isCapturableUrl, normalizeUrl, unwrapUrl } from '@/lib/utils/url';
+import { isIncognitoContext } from '@/lib/utils/incognito';
+import { isExcludedTab } from './exclusions';
 
 /**
  * Query all tabs across all windows
  */
 export async function queryAllTabs(): Promise<chrome.tabs.Tab[]> {
-  return chrome.tabs.query({});
+  return browser.tabs.query({});
+}
+
+/**
+ * Query the tabs covered by a capture scope
+ * Window-relative scopes use the last focused window, since the service
+ * worker has no window of its own.
+ */
+export async function queryTabsForScope(scope: CaptureScope): Promise<chrome.tabs.Tab[]> {
+  switch (scope.type) {
+    case 'all':
+      return queryAllTabs();
+    case 'currentWindow':
+      return browser.tabs.query({ lastFocusedWindow: true });
+    case 'highlighted':
+      return browser.tabs.query({ lastFocusedWindow: true, highlighted: true });
+    case 'tabGroup':
+      return browser.tabs.query({ groupId: scope.groupId });
+    case 'tabsToRight': {
+      const windowTabs = await browser.tabs.query({ lastFocusedWindow: true });
+      const activeTab = windowTabs.find((tab) => tab.active);
+      if (!activeTab) return [];
+      return windowTabs.filter((tab) => tab.index > activeTab.index);
+    }
+    case 'tab':
+      return [await browser.tabs.get(scope.tabId)];
+    case 'link':
+      // Links are not open tabs; they are saved through captureLink
+      return [];
+    case 'idle': {
+      const now = Date.now();
+      return (await queryAllTabs()).filter((tab) => isIdleTab(tab, scope.idleMs, now));
+    }
+    case 'window':
+      return browser.tabs.query({ windowId: scope.windowId });
+    case 'picked': {
+      const tabIds = new Set(scope.tabIds);
+      return (await queryAllTabs()).filter((tab) => tab.id !== undefined && tabIds.has(tab.id));
+    }
+  }
+}
+
+/**
+ * Check whether a tab has gone unused for at least idleMs
+ * Pinned, audible, and active tabs are never idle, nor are tabs
+ * whose last access time is unknown.
+ */
+export function isIdleTab(tab: chrome.tabs.Tab, idleMs: number, now: number): boolean {
+  if (tab.pinned || tab.audible || tab.active) return false;
+  if (!tab.lastAccessed) return false;
+  return now - tab.lastAccessed >= idleMs;
 }
 
 /**
  * Query all tab groups
  */
 export async function queryAllTabGroups(): Promise<chrome.tabGroups.TabGroup[]> {
+  if (!hasTabGroups()) {
+    return [];
+  }
+
   try {
-    return await chrome.tabGroups.query({});
+    return await browser.tabGroups.query({});
   } catch {
     // tabGroups API might not be available in all contexts
     return [];
@@ -35,41 +100,77 @@ export function buildGroupMap(groups: chrome.tabGroups.TabGroup[]): Map<number,
   return map;
 }
 
+/**
+ * Whether a tab is from the same kind of window (incognito or not)
+ * as the context capturing it
+ */
+export function isTabInContext(
+  tab: chrome.tabs.Tab,
+  incognito: boolean = isIncognitoContext()
+): boolean {
+  return Boolean(tab.incognito) === incognito;
+}
+
 /**
  * Filter and transform Chrome tabs to our TabInfo format
- * Returns both capturable tabs and skipped count
+ * Returns capturable tabs, the internal skipped count, and the count
+ * excluded by user rules (tracked separately)
+ *
+ * Only tabs from the same kind of window as `incognito` are kept. The rest
+ * are dropped without being counted, so incognito tabs never show up in a
+ * normal capture (or the other way round).
  */
 export function filterAndTransformTabs(
-  tabs: chrome.tabs.Tab[]
-): { capturableTabs: TabInfo[]; skippedCount: number } {
+  tabs: chrome.tabs.Tab[],
+  rules: ExclusionRule[] = [],
+  groupMap: Map<number, TabGroupInfo> = new Map(),
+  incognito: boolean = isIncognitoContext()
+): { capturableTabs: TabInfo[]; skippedCount: number; excludedCount: number } {
   const capturableTabs: TabInfo[] = [];
   let skippedCount = 0;
+  let excludedCount = 0;
 
   for (const tab of tabs) {
+    if (!isTabInContext(tab, incognito)) {
+      continue;
+    }
+
     // Skip tabs without URLs
     if (!tab.url || !tab.id) {
       skippedCount++;
       continue;
     }
 
+    // Recover the real page behind suspended tabs and redirects
+    const url = unwrapUrl(tab.url);
+
     // Check if URL is capturable
-    if (!isCapturableUrl(tab.url)) {
+    if (!isCapturableUrl(url)) {
       skippedCount++;
       continue;
     }
 
-    capturableTabs.push({
+    const tabInfo: TabInfo = {
       tabId: tab.id,
       windowId: tab.windowId,
-      url: tab.url,
+      url,
       title: tab.title || '',
       favIconUrl: tab.favIconUrl || null,
       pinned: tab.pinned || false,
-      groupId: tab.groupId,
-    });
+      groupId: tab.groupId ?? -1, // Firefox tabs have no group
+      lastAccessed: tab.lastAccessed ?? null,
+    };
+
+    // Check user exclusion rules
+    if (isExcludedTab(tabInfo, rules, groupMap)) {
+      excludedCount++;
+      continue;
+    }
+
+    capturableTabs.push(tabInfo);
   }
 
-  return { capturableTabs, skippedCount };
+  return { capturableTabs, skippedCount, excludedCount };
 }
 
 /**
@@ -81,8 +182,43 @@ export async function closeTabsExcludingPinned(tabs: TabInfo[]): Promise<void> {
     .map(tab => tab.tabId);
 
   if (tabsToClose.length > 0) {
-    await chrome.tabs.remove(tabsToClose);
+    await browser.tabs.remove(tabsToClose);
+  }
+}
+
+/**
+ * Open URLs back in the windows they came from
+ * URLs whose window no longer exists are opened together in a new window
+ * per original window. Returns the number of tabs opened.
+ */
+export async function openUrlsInWindows(
+  tabs: { url: string; windowId: number | null }[]
+): Promise<number> {
+  if (tabs.length === 0) return 0;
+
+  const openWindowIds = new Set(
+    (await browser.windows.getAll()).map((window) => window.id)
+  );
+
+  // Group URLs by original window (null = unknown window)
+  const byWindow = new Map<number | null, string[]>();
+  for (const tab of tabs) {
+    const urls = byWindow.get(tab.windowId) ?? [];
+    urls.push(tab.url);
+    byWindow.set(tab.windowId, urls);
   }
+
+  for (const [windowId, urls] of byWindow) {
+    if (windowId !== null && openWindowIds.has(windowId)) {
+      for (const url of urls) {
+        await browser.tabs.create({ windowId, url, active: false });
+      }
+    } else {
+      await browser.windows.create({ url: urls, focused: false });
+    }
+  }
+
+  return tabs.length;
 }
 
 /**
@@ -93,15 +229,17 @@ export async function closeTabsExcludingPinned(tabs: TabInfo[]): Promise<void> {
  * - If title is empty, use first tab that has a title
  * - If favicon is null, use first tab that has a favicon
  * - Group info from first tab that's in a group
+ * - Most recent lastAccessed across all tabs
  */
 export function aggregateTabsByUrl(
   capturableTabs: TabInfo[],
-  groupMap: Map<number, TabGroupInfo>
+  groupMap: Map<number, TabGroupInfo>,
+  normalization: UrlNormalizationRules = DEFAULT_URL_NORMALIZATION
 ): AggregatedTab[] {
   const aggregatedMap = new Map<string, AggregatedTab>();
 
   for (const tab of capturableTabs) {
-    const normalized = normalizeUrl(tab.url);
+    const normalized = normalizeUrl(tab.url, normalization);
 
     if (!aggregatedMap.has(normalized)) {
       // First tab with this URL - initialize aggregation
@@ -119,6 +257,7 @@ export function aggregateTabsByUrl(
         groupId: groupInfo?.groupId ?? null,
         groupTitle: groupInfo?.title ?? null,
         groupColor: groupInfo?.color ?? null,
+        lastAccessed: tab.lastAccessed,
       });
     } else {
       // Additional tab with same URL - merge data
@@ -132,6 +271,11 @@ export function aggregateTabsByUrl(
         existing.pinnedAny = true;
       }
 
+      // Keep the most recent access time
+      if (tab.lastAccessed !== null && (existing.lastAccessed === null || tab.lastAccessed > existing.lastAccessed)) {
+        existing.lastAccessed = tab.lastAccessed;
+      }
+
       // Fill in missing title from this tab
       if (!existing.title && tab.title) {
         existing.title = tab.title;
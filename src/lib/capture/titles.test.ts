@@ -0,0 +1,59 @@
+import { describe, it, expect } from 'vitest';
+import { cleanTitle, validateTitleRule, type TitleCleanup } from './titles';
+import type { TitleRule } from '@/types';
+
+const BUILT_IN: TitleCleanup = { cleanTitles: true, titleRules: [] };
+
+function makeRule(pattern: string, enabled = true): TitleRule {
+  return { id: 'rule', pattern, enabled };
+}
+
+describe('cleanTitle', () => {
+  it('removes unread count prefixes', () => {
+    expect(cleanTitle('(3) Inbox', BUILT_IN)).toBe('Inbox');
+    expect(cleanTitle('(99+) Notifications', BUILT_IN)).toBe('Notifications');
+  });
+
+  it('removes unread markers', () => {
+    expect(cleanTitle('• Slack', BUILT_IN)).toBe('Slack');
+  });
+
+  it('removes known site-name suffixes', () => {
+    expect(cleanTitle('Never Gonna Give You Up - YouTube', BUILT_IN)).toBe('Never Gonna Give You Up');
+    expect(cleanTitle('Why I write | by Jane | Medium', BUILT_IN)).toBe('Why I write | by Jane');
+    expect(cleanTitle('(2) Great talk - YouTube', BUILT_IN)).toBe('Great talk');
+  });
+
+  it('keeps separators that are part of the title', () => {
+    expect(cleanTitle('Rust vs Go - a comparison', BUILT_IN)).toBe('Rust vs Go - a comparison');
+    expect(cleanTitle('Company (2024)', BUILT_IN)).toBe('Company (2024)');
+  });
+
+  it('skips built-in rules when disabled', () => {
+    expect(cleanTitle('(3) Inbox', { cleanTitles: false, titleRules: [] })).toBe('(3) Inbox');
+  });
+
+  it('removes every match of enabled user rules', () => {
+    const cleanup: TitleCleanup = {
+      cleanTitles: false,
+      titleRules: [makeRule('\\[draft\\]\\s*'), makeRule('Acme', false)],
+    };
+    expect(cleanTitle('[Draft] Plan [draft] Acme', cleanup)).toBe('Plan Acme');
+  });
+
+  it('ignores invalid user rules', () => {
+    expect(cleanTitle('Title', { cleanTitles: true, titleRules: [makeRule('(')] })).toBe('Title');
+  });
+
+  it('keeps the original title when cleanup would empty it', () => {
+    expect(cleanTitle('YouTube', { cleanTitles: true, titleRules: [makeRule('.*')] })).toBe('YouTube');
+  });
+});
+
+describe('validateTitleRule', () => {
+  it('requires a valid regex', () => {
+    expect(validateTitleRule('')).toBe('Pattern is required');
+    expect(validateTitleRule('(')).toBe('Invalid regular expression');
+    expect(validateTitleRule(' - Jira$')).toBeNull();
+  });
+});
@@ -0,0 +1,114 @@
+import { db } from '@/lib/db/schema';
+import { getSearchWords } from '@/lib/utils/search';
+import type { Settings } from '@/types';
+
+export type TitleCleanup = Pick<Settings, 'cleanTitles' | 'titleRules'>;
+
+/**
+ * Sites whose name is appended to page titles ("Video - YouTube")
+ */
+const SITE_NAME_SUFFIXES = [
+  'YouTube',
+  'Medium',
+  'Wikipedia',
+  'Reddit',
+  'GitHub',
+  'Stack Overflow',
+  'Hacker News',
+  'LinkedIn',
+  'Twitter',
+  'X',
+  'Facebook',
+  'Instagram',
+  'Slack',
+  'Gmail',
+  'Google Search',
+  'Google Docs',
+  'Google Sheets',
+  'Google Slides',
+  'Notion',
+];
+
+/**
+ * Built-in cleanup, applied in order before user rules
+ * - unread/notification counts: "(3) Inbox", "(99+) Feed"
+ * - unread markers: "• Slack"
+ * - site-name suffixes: "Video - YouTube", "Post | Medium", "Post · GitHub"
+ */
+const BUILT_IN_TITLE_PATTERNS: RegExp[] = [
+  /^\(\d+\+?\)\s*/,
+  /^[•●]\s*/,
+  new RegExp(`\\s+[-|–—·•:]\\s+(?:${SITE_NAME_SUFFIXES.map(escapeRegExp).join('|')})$`, 'i'),
+];
+
+/**
+ * Clean a captured page title
+ * Built-in rules run first (when enabled), then each enabled user rule's
+ * regex matches are removed. Whitespace is collapsed afterwards.
+ * Returns the title unchanged if cleanup would leave it empty.
+ */
+export function cleanTitle(title: string, cleanup: TitleCleanup): string {
+  let cleaned = title.trim();
+
+  if (cleanup.cleanTitles) {
+    for (const pattern of BUILT_IN_TITLE_PATTERNS) {
+      cleaned = cleaned.replace(pattern, '');
+    }
+  }
+
+  for (const rule of cleanup.titleRules) {
+    if (!rule.enabled) continue;
+    const regex = safeRegExp(rule.pattern);
+    if (regex) {
+      cleaned = cleaned.replace(regex, '');
+    }
+  }
+
+  cleaned = cleaned.replace(/\s+/g, ' ').trim();
+  return cleaned || title.trim();
+}
+
+/**
+ * Re-clean every saved item's title from its raw title
+ * Used after the rules change. Returns the number of titles that changed.
+ */
+export async function reapplyTitleCleanup(cleanup: TitleCleanup): Promise<number> {
+  const now = Date.now();
+  let changed = 0;
+
+  await db.items.toCollection().modify((item) => {
+    if (!item.rawTitle) return;
+
+    const title = cleanTitle(item.rawTitle, cleanup);
+    if (title !== item.title) {
+      item.title = title;
+      item.words = getSearchWords(item);
+      item.updatedAt = now;
+      changed++;
+    }
+  });
+
+  return changed;
+}
+
+/**
+ * Validate a title rule pattern before saving it
+ * Returns an error message, or null if the pattern is valid.
+ */
+export function validateTitleRule(pattern: string): string | null {
+  if (!pattern.trim()) return 'Pattern is required';
+  if (!safeRegExp(pattern.trim())) return 'Invalid regular expression';
+  return null;
+}
+
+function safeRegExp(pattern: string): RegExp | null {
+  try {
+    return new RegExp(pattern, 'gi');
+  } catch {
+    return null;
+  }
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
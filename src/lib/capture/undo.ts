@@ -0,0 +1,66 @@
+import { getLastCapture, revertCapture, type RevertedCapture } from '@/lib/db/captures';
+import { normalizeUrl, unwrapUrl } from '@/lib/utils/url';
+import { runWithCaptureLock } from './capture';
+import { queryAllTabs, openUrlsInWindows } from './tabs';
+import { getSettings } from '@/lib/settings';
+import type { UndoResult } from '@/types';
+
+/**
+ * Undo a capture (the most recent one if no ID is given)
+ * Reverses its saves and reopens the tabs it closed. Holds the capture
+ * lock throughout, so no capture can start while it runs.
+ */
+export function undoCapture(captureId?: string): Promise<UndoResult> {
+  return runWithCaptureLock(async () => {
+    const targetId = captureId ?? (await getLastCapture())?.captureId;
+    if (!targetId) {
+      throw new Error('No capture to undo');
+    }
+
+    const reverted = await revertCapture(targetId);
+    if (!reverted) {
+      throw new Error('Capture not found');
+    }
+
+    const tabsReopened = reverted.capture.autoCloseEnabled
+      ? await reopenClosedTabs(reverted.entries)
+      : 0;
+
+    return {
+      captureId: targetId,
+      itemsDeleted: reverted.itemsDeleted,
+      itemsUpdated: reverted.itemsUpdated,
+      tabsReopened,
+    };
+  });
+}
+
+/**
+ * Reopen the tabs a capture closed
+ * Tabs that are still open (e.g. pinned tabs, which are never closed)
+ * are not reopened, so each URL is only topped up to its captured tab count.
+ */
+async function reopenClosedTabs(entries: RevertedCapture['entries']): Promise<number> {
+  const { urlNormalization } = await getSettings();
+  const openCounts = new Map<string, number>();
+  for (const tab of await queryAllTabs()) {
+    if (!tab.url) continue;
+    const normalized = normalizeUrl(unwrapUrl(tab.url), urlNormalization);
+    openCounts.set(normalized, (openCounts.get(normalized) ?? 0) + 1);
+  }
+
+  const toOpen: { url: string; windowId: number | null }[] = [];
+  for (const { item, event } of entries) {
+    const { url } = item;
+    const normalized = normalizeUrl(url, urlNormalization);
+    const stillOpen = openCounts.get(normalized) ?? 0;
+    const missing = Math.max(0, event.tabCount - stillOpen);
+    openCounts.set(normalized, Math.max(0, stillOpen - event.tabCount));
+
+    for (let i = 0; i < missing; i++) {
+      toOpen.push({ url, windowId: event.windowIds[i] ?? event.windowIds[0] ?? null });
+    }
+  }
+
+  return openUrlsInWindows(toOpen);
+}
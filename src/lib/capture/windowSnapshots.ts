@@ -0,0 +1,143 @@
+import { captureClosedWindow } from './capture';
+import { getCaptureJournal } from './journal';
+import { queryAllTabs, queryAllTabGroups, buildGroupMap, filterAndTransformTabs } from './tabs';
+import { getSettings } from '@/lib/settings';
+import { browser } from '@/lib/browser';
+import type { CaptureResult, WindowSnapshot } from '@/types';
+
+const SNAPSHOTS_KEY = 'windowSnapshots';
+const REFRESH_DELAY_MS = 1000;
+
+type SnapshotMap = Record<string, WindowSnapshot>;
+
+let refreshTimeout: ReturnType<typeof setTimeout> | null = null;
+
+// Snapshot updates are read-modify-write on session storage, so they run one at a time
+let pendingUpdate: Promise<unknown> = Promise.resolve();
+
+/**
+ * Run an update against the stored snapshots after any pending one finishes
+ */
+function updateSnapshots<T>(update: (snapshots: SnapshotMap) => T): Promise<T> {
+  const run = pendingUpdate.then(async () => {
+    const stored = await browser.storage.session.get(SNAPSHOTS_KEY);
+    const snapshots = (stored[SNAPSHOTS_KEY] as SnapshotMap | undefined) ?? {};
+    const result = update(snapshots);
+    await browser.storage.session.set({ [SNAPSHOTS_KEY]: snapshots });
+    return result;
+  });
+
+  pendingUpdate = run.catch(() => undefined);
+  return run;
+}
+
+/**
+ * Schedule a snapshot refresh (called from background.ts tab listeners)
+ * Debounced, since tabs fire many update events while loading.
+ */
+export function scheduleWindowSnapshotRefresh(): void {
+  if (refreshTimeout) {
+    clearTimeout(refreshTimeout);
+  }
+
+  refreshTimeout = setTimeout(() => {
+    refreshTimeout = null;
+    refreshWindowSnapshots().catch((error) => {
+      console.error('Failed to refresh window snapshots:', error);
+    });
+  }, REFRESH_DELAY_MS);
+}
+
+/**
+ * Re-snapshot every open window, or drop all snapshots if the safeguard is off.
+ * Windows that are no longer open keep their last snapshot until
+ * handleWindowRemoved consumes it, so a refresh racing a window close
+ * can't lose its tabs.
+ */
+export async function refreshWindowSnapshots(): Promise<void> {
+  const settings = await getSettings();
+
+  if (!settings.saveOnWindowClose) {
+    await browser.storage.session.remove(SNAPSHOTS_KEY);
+    return;
+  }
+
+  const [allTabs, allGroups] = await Promise.all([queryAllTabs(), queryAllTabGroups()]);
+  const groupMap = buildGroupMap(allGroups);
+
+  // Group tabs by window
+  const tabsByWindow = new Map<number, chrome.tabs.Tab[]>();
+  for (const tab of allTabs) {
+    const windowTabs = tabsByWindow.get(tab.windowId) ?? [];
+    windowTabs.push(tab);
+    tabsByWindow.set(tab.windowId, windowTabs);
+  }
+
+  const updatedAt = Date.now();
+
+  await updateSnapshots((snapshots) => {
+    for (const [windowId, windowTabs] of tabsByWindow) {
+      // Exclusion rules are applied at capture time, so only internal tabs are left out
+      const { capturableTabs, skippedCount } = filterAndTransformTabs(windowTabs);
+      const groupIds = new Set(capturableTabs.map((tab) => tab.groupId));
+
+      snapshots[windowId] = {
+        windowId,
+        tabs: capturableTabs,
+        groups: Array.from(groupMap.values()).filter((group) => groupIds.has(group.groupId)),
+        skippedCount,
+        updatedAt,
+      };
+    }
+  });
+}
+
+/**
+ * Drop a single closed tab from its window's snapshot
+ * Called for tabs closed on their own (not as part of a window closing),
+ * including tabs bmbl closes after saving them.
+ */
+export async function forgetClosedTab(tabId: number, windowId: number): Promise<void> {
+  await updateSnapshots((snapshots) => {
+    const snapshot = snapshots[windowId];
+    if (snapshot) {
+      snapshot.tabs = snapshot.tabs.filter((tab) => tab.tabId !== tabId);
+    }
+  });
+}
+
+/**
+ * Handle a window closing (called from background.ts window listener)
+ * Saves the window's last snapshot as a 'windowClosed' capture, once any
+ * running capture finishes. Tabs the running capture is closing (which
+ * may be what closed the window) are already saved, so they are left out.
+ * Skips if the safeguard is off or the window had nothing else to save.
+ */
+export async function handleWindowRemoved(windowId: number): Promise<CaptureResult | null> {
+  const snapshot = await updateSnapshots((snapshots) => {
+    const existing = snapshots[windowId];
+    delete snapshots[windowId];
+    return existing;
+  });
+
+  if (!snapshot) {
+    return null;
+  }
+
+  const journal = await getCaptureJournal();
+  if (journal) {
+    const closingTabIds = new Set(journal.tabsToClose.map((tab) => tab.tabId));
+    snapshot.tabs = snapshot.tabs.filter((tab) => !closingTabIds.has(tab.tabId));
+  }
+
+  if (snapshot.tabs.length === 0) {
+    return null;
+  }
+
+  const settings = await getSettings();
+  if (!settings.saveOnWindowClose) {
+    return null;
+  }
+
+  return captureClosedWindow(snapshot);
+}
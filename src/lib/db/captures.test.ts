@@ -0,0 +1,109 @@
+import 'fake-indexeddb/auto';
+import { describe, it, expect, beforeEach } from 'vitest';
+import { revertCapture } from './captures';
+import { createItemFromTab } from './items';
+import { db } from './schema';
+import { NOT_DELETED } from '@/types';
+import type { Capture, CaptureEvent, Item } from '@/types';
+
+const NOW = 1_700_000_000_000;
+
+function makeItem(itemId: string, overrides: Partial<Item> = {}): Item {
+  return {
+    itemId,
+    ...createItemFromTab(`https://example.com/${itemId}`, 'Title', null, 1),
+    ...overrides,
+  };
+}
+
+function makeCapture(captureId: string, createdAt: number): Capture {
+  return {
+    captureId,
+    createdAt,
+    tabCountCaptured: 1,
+    tabCountSkippedInternal: 0,
+    tabCountSkippedByRule: 0,
+    tabCountUpdatedExisting: 1,
+    tabCountInsertedNew: 0,
+    tabCountAlreadyDeleted: 0,
+    tabCountResurfaced: 0,
+    autoCloseEnabled: false,
+    uniqueUrlCount: 1,
+    scope: { type: 'all' },
+    trigger: 'manual',
+    savesCounted: true,
+    failures: [],
+    name: null,
+  };
+}
+
+function makeEvent(captureId: string, itemId: string, overrides: Partial<CaptureEvent> = {}): CaptureEvent {
+  return {
+    captureId,
+    itemId,
+    capturedAt: NOW,
+    tabCount: 1,
+    windowIds: [1],
+    tabIds: [10],
+    pinnedAny: false,
+    groupId: null,
+    groupTitle: null,
+    groupColor: null,
+    createdItem: false,
+    resurfacedFrom: NOT_DELETED,
+    idleMs: null,
+    previousLastSavedAt: 0,
+    tagsAdded: [],
+    ...overrides,
+  };
+}
+
+describe('revertCapture', () => {
+  beforeEach(async () => {
+    await Promise.all([db.items.clear(), db.captures.clear(), db.captureEvents.clear()]);
+  });
+
+  it('removes the tags the capture added and restores the previous lastSavedAt', async () => {
+    await db.items.add(makeItem('a', {
+      createdAt: NOW - 9000,
+      lastSavedAt: NOW,
+      saveCount: 3,
+      tags: ['work', 'reading'],
+    }));
+    await db.captures.add(makeCapture('capture', NOW));
+    await db.captureEvents.add(makeEvent('capture', 'a', {
+      previousLastSavedAt: NOW - 5000,
+      tagsAdded: ['reading'],
+    }));
+
+    await revertCapture('capture');
+
+    const item = await db.items.get('a');
+    expect(item?.tags).toEqual(['work']);
+    expect(item?.lastSavedAt).toBe(NOW - 5000);
+    expect(item?.saveCount).toBe(2);
+  });
+
+  it('keeps the lastSavedAt of a later capture', async () => {
+    await db.items.add(makeItem('a', { createdAt: NOW - 9000, lastSavedAt: NOW + 1000, saveCount: 3 }));
+    await db.captures.bulkAdd([makeCapture('first', NOW), makeCapture('second', NOW + 1000)]);
+    await db.captureEvents.bulkAdd([
+      makeEvent('first', 'a', { previousLastSavedAt: NOW - 5000 }),
+      makeEvent('second', 'a', { capturedAt: NOW + 1000, previousLastSavedAt: NOW }),
+    ]);
+
+    await revertCapture('first');
+
+    expect((await db.items.get('a'))?.lastSavedAt).toBe(NOW + 1000);
+  });
+
+  it('falls back to createdAt for events recorded before the previous save was', async () => {
+    await db.items.add(makeItem('a', { createdAt: NOW - 9000, lastSavedAt: NOW, saveCount: 2 }));
+    await db.captures.add(makeCapture('capture', NOW));
+    await db.captureEvents.add(makeEvent('capture', 'a'));
+
+    await revertCapture('capture');
+
+    expect((await db.items.get('a'))?.lastSavedAt).toBe(NOW - 9000);
+  });
+});
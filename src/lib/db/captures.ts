@@ -1,14 +1,16 @@
 import { db } from './schema';
-import type { Capture, CaptureEvent } from '@/types';
+import type { Capture, CaptureEvent, Item } from '@/types';
+import { NOT_DELETED, NOT_RESURFACED } from '@/types';
 import { generateId } from '@/lib/utils/uuid';
 
 /**
  * Create a new capture record
+ * Pass the captureId used for the capture's events so they stay linked.
  */
 export async function createCapture(
-  stats: Omit<Capture, 'captureId' | 'createdAt'>
+  stats: Omit<Capture, 'captureId' | 'createdAt'>,
+  captureId: string = generateId()
 ): Promise<string> {
-  const captureId = generateId();
   const capture: Capture = {
     captureId,
     createdAt: Date.now(),
@@ -19,10 +21,10 @@ export async function createCapture(
 }
 
 /**
- * Insert a capture event
+ * Insert a capture's events in bulk
  */
-export async function insertCaptureEvent(event: CaptureEvent): Promise<void> {
-  await db.captureEvents.add(event);
+export async function insertCaptureEvents(events: CaptureEvent[]): Promise<void> {
+  await db.captureEvents.bulkAdd(events);
 }
 
 /**
@@ -36,12 +38,23 @@ export async function getLastCapture(): Promise<Capture | undefined> {
 }
 
 /**
- * Get all captures (for history view, future feature)
+ * Get all captures, most recent first (for history view)
+ * @param includeAutomatic - Include captures not started by the user
  */
-export async function listCaptures(limit = 50, offset = 0): Promise<Capture[]> {
-  return db.captures
+export async function listCaptures(
+  limit = 50,
+  offset = 0,
+  includeAutomatic = true
+): Promise<Capture[]> {
+  let query = db.captures
     .orderBy('createdAt')
-    .reverse()
+    .reverse();
+
+  if (!includeAutomatic) {
+    query = query.filter((capture) => capture.trigger === 'manual');
+  }
+
+  return query
     .offset(offset)
     .limit(limit)
     .toArray();
@@ -56,3 +69,95 @@ export async function getCaptureEvents(captureId: string): Promise<CaptureEvent[
     .equals(captureId)
     .toArray();
 }
+
+/**
+ * A capture event paired with the item it points to
+ */
+export interface CaptureEntry {
+  item: Item;
+  event: CaptureEvent;
+}
+
+/**
+ * Get a capture's events with their items
+ * Events whose item no longer exists are skipped.
+ */
+export async function getCaptureEntries(captureId: string): Promise<CaptureEntry[]> {
+  const events = await getCaptureEvents(captureId);
+  const items = await db.items.bulkGet(events.map((event) => event.itemId));
+
+  const entries: CaptureEntry[] = [];
+  events.forEach((event, i) => {
+    const item = items[i];
+    if (item) entries.push({ item, event });
+  });
+  return entries;
+}
+
+export interface RevertedCapture {
+  capture: Capture;
+  // Each reverted event with the item it pointed to (as it was before reverting)
+  entries: CaptureEntry[];
+  itemsDeleted: number;
+  itemsUpdated: number;
+}
+
+/**
+ * Reverse a capture's effect on the backlog
+ * - Items the capture created are deleted (unless a later capture also saved them)
+ * - Items the capture resurfaced are hidden again
+ * - Other items lose the saves and tags the capture added, and get back
+ *   their previous lastSavedAt (or a later capture's)
+ * - The capture and its events are deleted
+ * Returns null if the capture does not exist.
+ */
+export async function revertCapture(captureId: string): Promise<RevertedCapture | null> {
+  return db.transaction('rw', [db.items, db.captures, db.captureEvents], async () => {
+    const capture = await db.captures.get(captureId);
+    if (!capture) return null;
+
+    const events = await getCaptureEvents(captureId);
+    const entries: RevertedCapture['entries'] = [];
+    let itemsDeleted = 0;
+    let itemsUpdated = 0;
+
+    for (const event of events) {
+      const item = await db.items.get(event.itemId);
+      if (!item) continue;
+      entries.push({ item, event });
+
+      const otherEvents = (await db.captureEvents.where('itemId').equals(item.itemId).toArray())
+        .filter((e) => e.captureId !== captureId);
+
+      if (event.createdItem && otherEvents.length === 0) {
+        await db.items.delete(item.itemId);
+        itemsDeleted++;
+        continue;
+      }
+
+      // The save before this capture, unless a remaining capture is more recent
+      const lastSavedAt = Math.max(event.previousLastSavedAt, ...otherEvents.map((e) => e.capturedAt))
+        || item.createdAt;
+
+      await db.items.update(item.itemId, {
+        saveCount: capture.savesCounted || event.createdItem
+          ? Math.max(1, item.saveCount - event.tabCount)
+          : item.saveCount,
+        lastSavedAt,
+        tags: item.tags.filter((tag) => !event.tagsAdded.includes(tag)),
+        // Hide a resurfaced item again, unless it was hidden again since
+        ...(event.resurfacedFrom !== NOT_DELETED && item.deletedAt === NOT_DELETED && {
+          deletedAt: event.resurfacedFrom,
+          resurfacedAt: NOT_RESURFACED,
+        }),
+        updatedAt: Date.now(),
+      });
+      itemsUpdated++;
+    }
+
+    await db.captureEvents.where('captureId').equals(captureId).delete();
+    await db.captures.delete(captureId);
+
+    return { capture, entries, itemsDeleted, itemsUpdated };
+  });
+}
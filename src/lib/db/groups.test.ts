@@ -0,0 +1,62 @@
+import { describe, it, expect } from 'vitest';
+import { summarizeCapturedGroups } from './groups';
+import { NOT_DELETED } from '@/types';
+import type { CaptureEvent } from '@/types';
+
+const NOW = 1_700_000_000_000;
+
+function makeEvent(itemId: string, overrides: Partial<CaptureEvent> = {}): CaptureEvent {
+  return {
+    captureId: 'capture',
+    itemId,
+    capturedAt: NOW,
+    tabCount: 1,
+    windowIds: [1],
+    tabIds: [10],
+    pinnedAny: false,
+    groupId: 5,
+    groupTitle: 'Q3 research',
+    groupColor: 'blue',
+    createdItem: false,
+    resurfacedFrom: NOT_DELETED,
+    idleMs: null,
+    previousLastSavedAt: 0,
+    tagsAdded: [],
+    ...overrides,
+  };
+}
+
+describe('summarizeCapturedGroups', () => {
+  it('counts distinct items per group title', () => {
+    const groups = summarizeCapturedGroups([
+      makeEvent('a', { captureId: 'c1' }),
+      makeEvent('a', { captureId: 'c2' }),
+      makeEvent('b', { captureId: 'c2', groupId: 9 }),
+    ]);
+
+    expect(groups).toEqual([
+      { title: 'Q3 research', color: 'blue', itemCount: 2, lastCapturedAt: NOW },
+    ]);
+  });
+
+  it('uses the color from the latest capture', () => {
+    const groups = summarizeCapturedGroups([
+      makeEvent('a', { capturedAt: NOW, groupColor: 'red' }),
+      makeEvent('b', { capturedAt: NOW - 1000, groupColor: 'green' }),
+    ]);
+
+    expect(groups[0].color).toBe('red');
+    expect(groups[0].lastCapturedAt).toBe(NOW);
+  });
+
+  it('sorts groups by most recent capture and skips untitled groups', () => {
+    const groups = summarizeCapturedGroups([
+      makeEvent('a', { groupTitle: 'Older', capturedAt: NOW - 1000 }),
+      makeEvent('b', { groupTitle: 'Newer', capturedAt: NOW }),
+      makeEvent('c', { groupTitle: '' }),
+      makeEvent('d', { groupId: null, groupTitle: null }),
+    ]);
+
+    expect(groups.map((group) => group.title)).toEqual(['Newer', 'Older']);
+  });
+});
@@ -0,0 +1,88 @@
+import { db } from './schema';
+import { normalizeTags, mergeTags } from './tags';
+import type { CaptureEvent, CapturedGroup } from '@/types';
+
+/**
+ * Summarize captured tab groups by title, most recently captured first
+ * Pure. Untitled groups are left out, since they can't be told apart.
+ */
+export function summarizeCapturedGroups(events: CaptureEvent[]): CapturedGroup[] {
+  const groups = new Map<string, CapturedGroup & { itemIds: Set<string> }>();
+
+  for (const event of events) {
+    if (!event.groupTitle) continue;
+
+    let group = groups.get(event.groupTitle);
+    if (!group) {
+      group = {
+        title: event.groupTitle,
+        color: event.groupColor,
+        itemCount: 0,
+        lastCapturedAt: event.capturedAt,
+        itemIds: new Set(),
+      };
+      groups.set(event.groupTitle, group);
+    }
+
+    group.itemIds.add(event.itemId);
+    if (event.capturedAt >= group.lastCapturedAt) {
+      group.lastCapturedAt = event.capturedAt;
+      group.color = event.groupColor;
+    }
+  }
+
+  return Array.from(groups.values())
+    .map(({ itemIds, ...group }) => ({ ...group, itemCount: itemIds.size }))
+    .sort((a, b) => b.lastCapturedAt - a.lastCapturedAt);
+}
+
+/**
+ * List every titled tab group seen in captures
+ * Reads only events with a group title, through the groupTitle index.
+ */
+export async function listCapturedGroups(): Promise<CapturedGroup[]> {
+  const events = await db.captureEvents.where('groupTitle').above('').toArray();
+  return summarizeCapturedGroups(events);
+}
+
+/**
+ * Get the IDs of items ever captured in a tab group with this title
+ */
+export async function getGroupItemIds(title: string): Promise<string[]> {
+  const events = await db.captureEvents.where('groupTitle').equals(title).toArray();
+  return Array.from(new Set(events.map((event) => event.itemId)));
+}
+
+/**
+ * Tag items with the titles of the tab groups they were captured in
+ * (for captures made before tagGroupTitles was turned on).
+ * Returns the number of items that gained a tag.
+ */
+export async function tagItemsWithGroupTitles(): Promise<number> {
+  return db.transaction('rw', [db.items, db.captureEvents], async () => {
+    const events = await db.captureEvents.where('groupTitle').above('').toArray();
+
+    const tagsByItem = new Map<string, string[]>();
+    for (const event of events) {
+      const tags = normalizeTags([event.groupTitle]);
+      tagsByItem.set(event.itemId, mergeTags(tagsByItem.get(event.itemId) ?? [], tags));
+    }
+
+    const now = Date.now();
+    let changed = 0;
+
+    await db.items
+      .where('itemId')
+      .anyOf(Array.from(tagsByItem.keys()))
+      .modify((item) => {
+        const tags = mergeTags(item.tags, tagsByItem.get(item.itemId) ?? []);
+        if (tags.length === item.tags.length) return;
+
+        item.tags = tags;
+        item.updatedAt = now;
+        changed++;
+      });
+
+    return changed;
+  });
+}
@@ -0,0 +1,373 @@
+import 'fake-indexeddb/auto';
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import {
+  planItemUpserts,
+  upsertItems,
+  createItemFromTab,
+  isResurfaced,
+  type ItemUpsertInput,
+} from './items';
+import { db } from './schema';
+import { generateId } from '@/lib/utils/uuid';
+import { aggregateTabsByUrl } from '@/lib/capture/tabs';
+import { normalizeUrl } from '@/lib/utils/url';
+import { DEFAULT_URL_NORMALIZATION, NOT_DELETED } from '@/types';
+import type { Item, TabInfo } from '@/types';
+
+// Real IDs, but a test can choose the next few
+vi.mock('@/lib/utils/uuid', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('@/lib/utils/uuid')>();
+  return { generateId: vi.fn(actual.generateId) };
+});
+
+const NOW = 1_700_000_000_000;
+
+function makeItem(url: string, overrides: Partial<Item> = {}): Item {
+  return {
+    itemId: `item-${url}`,
+    ...createItemFromTab(url, 'Existing', null, 1),
+    ...overrides,
+  };
+}
+
+function makeInput(url: string, tabCount = 1): ItemUpsertInput {
+  return { url, title: 'Title', rawTitle: '(2) Title', favIconUrl: null, tabCount };
+}
+
+describe('planItemUpserts', () => {
+  it('adds items for new URLs', () => {
+    const { results, toAdd, toPut } = planItemUpserts([makeInput('https://example.com/a', 2)], [], {}, NOW);
+
+    expect(results[0].isNew).toBe(true);
+    expect(results[0].item.saveCount).toBe(2);
+    expect(results[0].item.lastSavedAt).toBe(NOW);
+    expect(toAdd).toHaveLength(1);
+    expect(toPut).toHaveLength(0);
+  });
+
+  it('updates existing items matched by normalized URL', () => {
+    const existing = makeItem('https://example.com/a', { saveCount: 3 });
+    const { results, toAdd, toPut } = planItemUpserts(
+      [makeInput('https://Example.com/a/', 2)],
+      [existing],
+      {},
+      NOW
+    );
+
+    expect(results[0].isNew).toBe(false);
+    expect(results[0].item.itemId).toBe(existing.itemId);
+    expect(results[0].item.saveCount).toBe(5);
+    expect(results[0].item.url).toBe('https://Example.com/a/');
+    expect(toAdd).toHaveLength(0);
+    expect(toPut).toHaveLength(1);
+  });
+
+  it('stores the raw title alongside the cleaned one', () => {
+    const existing = makeItem('https://example.com/a');
+    const { results } = planItemUpserts(
+      [makeInput('https://example.com/a'), makeInput('https://example.com/b')],
+      [existing],
+      {},
+      NOW
+    );
+
+    expect(results.map((result) => result.item.title)).toEqual(['Title', 'Title']);
+    expect(results.map((result) => result.item.rawTitle)).toEqual(['(2) Title', '(2) Title']);
+  });
+
+  it('matches existing items using the normalization rules', () => {
+    const normalization = { ...DEFAULT_URL_NORMALIZATION, stripTrackingParams: true };
+    const existing = makeItem('https://example.com/a', {
+      normalizedUrl: normalizeUrl('https://example.com/a', normalization),
+    });
+    const { results } = planItemUpserts(
+      [makeInput('https://example.com/a?utm_source=feed')],
+      [existing],
+      { normalization },
+      NOW
+    );
+
+    expect(results[0].isNew).toBe(false);
+    expect(results[0].item.itemId).toBe(existing.itemId);
+    expect(results[0].item.normalizedUrl).toBe('https://example.com/a');
+  });
+
+  it('keeps saveCount when saves are not counted', () => {
+    const existing = makeItem('https://example.com/a', { saveCount: 3 });
+    const { results } = planItemUpserts(
+      [makeInput('https://example.com/a', 2)],
+      [existing],
+      { countSave: false },
+      NOW
+    );
+
+    expect(results[0].item.saveCount).toBe(3);
+  });
+
+  it('reports what an update changed, so it can be undone', () => {
+    const existing = makeItem('https://example.com/a', { lastSavedAt: NOW - 5000, tags: ['work'] });
+    const { results } = planItemUpserts(
+      [{ ...makeInput('https://example.com/a'), tags: ['work', 'reading'] }],
+      [existing],
+      {},
+      NOW
+    );
+
+    expect(results[0].previousLastSavedAt).toBe(NOW - 5000);
+    expect(results[0].tagsAdded).toEqual(['reading']);
+    expect(results[0].item.tags).toEqual(['work', 'reading']);
+  });
+
+  it('reports hidden items without resurrecting them', () => {
+    const existing = makeItem('https://example.com/a', { deletedAt: NOW - 1000 });
+    const { results } = planItemUpserts([makeInput('https://example.com/a')], [existing], {}, NOW);
+
+    expect(results[0].wasDeleted).toBe(true);
+    expect(results[0].resurfacedFrom).toBe(NOT_DELETED);
+    expect(results[0].item.deletedAt).toBe(NOW - 1000);
+  });
+
+  it('resurfaces hidden items when asked to', () => {
+    const existing = makeItem('https://example.com/a', { deletedAt: NOW - 1000 });
+    const { results } = planItemUpserts(
+      [makeInput('https://example.com/a')],
+      [existing],
+      { resurfaceHidden: true },
+      NOW
+    );
+
+    expect(results[0].wasDeleted).toBe(true);
+    expect(results[0].resurfacedFrom).toBe(NOW - 1000);
+    expect(results[0].item.deletedAt).toBe(NOT_DELETED);
+    expect(results[0].item.resurfacedAt).toBe(NOW);
+    expect(isResurfaced(results[0].item)).toBe(true);
+  });
+
+  it('adds tags to new and existing items', () => {
+    const existing = makeItem('https://example.com/a', { tags: ['reading'] });
+    const { results } = planItemUpserts(
+      [
+        { ...makeInput('https://example.com/a'), tags: ['q3 research', 'reading'] },
+        { ...makeInput('https://example.com/b'), tags: ['q3 research'] },
+      ],
+      [existing],
+      {},
+      NOW
+    );
+
+    expect(results[0].item.tags).toEqual(['reading', 'q3 research']);
+    expect(results[1].item.tags).toEqual(['q3 research']);
+  });
+
+  it('applies repeated URLs in one batch to the same item', () => {
+    const { results, toAdd, toPut } = planItemUpserts(
+      [makeInput('https://example.com/a'), makeInput('https://example.com/a/')],
+      [],
+      {},
+      NOW
+    );
+
+    expect(results[0].isNew).toBe(true);
+    expect(results[1].isNew).toBe(false);
+    expect(results[1].item.itemId).toBe(results[0].item.itemId);
+    expect(toAdd).toHaveLength(1);
+    expect(toAdd[0].saveCount).toBe(2);
+    expect(toPut).toHaveLength(0);
+  });
+});
+
+describe('planItemUpserts benchmark', () => {
+  it('plans thousands of synthetic tabs quickly with the same counts', () => {
+    const TAB_COUNT = 10_000;
+    const UNIQUE_URLS = 4_000;
+
+    // Pages 0-1999 are open in 3 tabs and already saved (every tenth hidden);
+    // pages 2000-3999 are open in 2 tabs and new
+    const tabs: TabInfo[] = Array.from({ length: TAB_COUNT }, (_, i) => ({
+      tabId: i,
+      windowId: i % 7,
+      url: `https://site${i % 50}.example.com/page/${i % UNIQUE_URLS}`,
+      title: `Page ${i % UNIQUE_URLS}`,
+      favIconUrl: null,
+      pinned: false,
+      groupId: -1,
+      lastAccessed: null,
+    }));
+
+    const existingItems = Array.from({ length: UNIQUE_URLS / 2 }, (_, i) =>
+      makeItem(`https://site${i % 50}.example.com/page/${i}`, {
+        deletedAt: i % 10 === 0 ? NOW - 1000 : NOT_DELETED,
+      })
+    );
+
+    const start = performance.now();
+    const aggregated = aggregateTabsByUrl(tabs, new Map());
+    const { results, toAdd, toPut } = planItemUpserts(
+      aggregated.map((agg) => makeInput(agg.url, agg.tabIds.length)),
+      existingItems,
+      {},
+      NOW
+    );
+    const elapsed = performance.now() - start;
+
+    let inserted = 0;
+    let updated = 0;
+    let alreadyDeleted = 0;
+    results.forEach((result, i) => {
+      const tabCount = aggregated[i].tabIds.length;
+      if (result.isNew) inserted += tabCount;
+      else if (result.wasDeleted) alreadyDeleted += tabCount;
+      else updated += tabCount;
+    });
+
+    expect(aggregated).toHaveLength(UNIQUE_URLS);
+    expect(toAdd).toHaveLength(UNIQUE_URLS / 2);
+    expect(toPut).toHaveLength(UNIQUE_URLS / 2);
+    expect(inserted + updated + alreadyDeleted).toBe(TAB_COUNT);
+    expect(inserted).toBe(4_000);
+    expect(updated).toBe(5_400);
+    expect(alreadyDeleted).toBe(600);
+    expect(elapsed).toBeLessThan(2000);
+  });
+});
+
+describe('upsertItems', () => {
+  beforeEach(async () => {
+    await db.items.clear();
+  });
+
+  it('saves the rest of a batch when one item fails to write', async () => {
+    await db.items.bulkAdd([
+      makeItem('https://example.com/existing', { saveCount: 1 }),
+      makeItem('https://example.com/other', { itemId: 'taken' }),
+    ]);
+
+    // The second new item gets an ID that is already in use, so its add fails
+    vi.mocked(generateId).mockReturnValueOnce('fresh').mockReturnValueOnce('taken');
+
+    const results = await upsertItems(
+      [
+        makeInput('https://example.com/a'),
+        makeInput('https://example.com/b'),
+        makeInput('https://example.com/existing', 2),
+      ],
+      { isolateFailures: true }
+    );
+
+    expect(results.map((result) => result.error)).toEqual([null, expect.any(String), null]);
+    expect(await db.items.where('normalizedUrl').equals('https://example.com/a').count()).toBe(1);
+    expect(await db.items.where('normalizedUrl').equals('https://example.com/b').count()).toBe(0);
+    expect((await db.items.get(results[2].item.itemId))?.saveCount).toBe(3);
+  });
+
+  it('fails the whole batch without isolateFailures', async () => {
+    await db.items.add(makeItem('https://example.com/other', { itemId: 'taken' }));
+    vi.mocked(generateId).mockReturnValueOnce('fresh').mockReturnValueOnce('taken');
+
+    await expect(
+      upsertItems([makeInput('https://example.com/a'), makeInput('https://example.com/b')])
+    ).rejects.toThrow();
+  });
+});
+
+describe('upsertItems benchmark', () => {
+  // fake-indexeddb is much slower than the real thing, so this is smaller
+  const TAB_COUNT = 1_000;
+  const UNIQUE_URLS = 400;
+  const BATCH_SIZE = 250; // As in the capture pipeline
+
+  // Pages 0-199 are open in 3 tabs and already saved (every tenth hidden);
+  // pages 200-399 are open in 2 tabs and new
+  const tabs: TabInfo[] = Array.from({ length: TAB_COUNT }, (_, i) => ({
+    tabId: i,
+    windowId: i % 7,
+    url: `https://site${i % 50}.example.com/page/${i % UNIQUE_URLS}`,
+    title: `Page ${i % UNIQUE_URLS}`,
+    favIconUrl: null,
+    pinned: false,
+    groupId: -1,
+    lastAccessed: null,
+  }));
+  const inputs = aggregateTabsByUrl(tabs, new Map()).map((agg) =>
+    makeInput(agg.url, agg.tabIds.length)
+  );
+
+  async function seedExistingItems(): Promise<void> {
+    await db.items.clear();
+    await db.items.bulkAdd(
+      Array.from({ length: UNIQUE_URLS / 2 }, (_, i) =>
+        makeItem(`https://site${i % 50}.example.com/page/${i}`, {
+          deletedAt: i % 10 === 0 ? NOW - 1000 : NOT_DELETED,
+        })
+      )
+    );
+  }
+
+  beforeEach(seedExistingItems);
+
+  /**
+   * The per-URL upsert the capture pipeline used before batching:
+   * one indexed lookup and one write per unique URL
+   */
+  async function upsertOneByOne(): Promise<void> {
+    for (const input of inputs) {
+      const normalizedUrl = normalizeUrl(input.url);
+      const existing = await db.items.where('normalizedUrl').equals(normalizedUrl).first();
+
+      if (!existing) {
+        await db.items.add({
+          itemId: `new-${normalizedUrl}`,
+          ...createItemFromTab(input.url, input.title, input.favIconUrl, input.tabCount),
+        });
+      } else {
+        await db.items.update(existing.itemId, {
+          saveCount: existing.saveCount + input.tabCount,
+          lastSavedAt: Date.now(),
+        });
+      }
+    }
+  }
+
+  async function readSaveCounts(): Promise<Map<string, [number, number]>> {
+    const items = await db.items.toArray();
+    return new Map(items.map((item) => [item.normalizedUrl, [item.saveCount, item.deletedAt]]));
+  }
+
+  it('writes the same items and save counts as per-URL upserts, faster', async () => {
+    let start = performance.now();
+    await upsertOneByOne();
+    const oneByOneElapsed = performance.now() - start;
+    const expected = await readSaveCounts();
+
+    await seedExistingItems();
+
+    start = performance.now();
+    const results = [];
+    for (let i = 0; i < inputs.length; i += BATCH_SIZE) {
+      results.push(...(await upsertItems(inputs.slice(i, i + BATCH_SIZE))));
+    }
+    const batchedElapsed = performance.now() - start;
+
+    expect(results.filter((result) => result.isNew)).toHaveLength(UNIQUE_URLS / 2);
+    expect(results.filter((result) => result.wasDeleted)).toHaveLength(UNIQUE_URLS / 20);
+    expect(await db.items.count()).toBe(UNIQUE_URLS);
+    expect(await readSaveCounts()).toEqual(expected);
+    expect(batchedElapsed).toBeLessThan(oneByOneElapsed);
+  }, 20_000);
+});
+
+describe('isResurfaced', () => {
+  it('is true until the item is saved again', () => {
+    const item = makeItem('https://example.com/a', { lastSavedAt: NOW, resurfacedAt: NOW });
+
+    expect(isResurfaced(item)).toBe(true);
+    expect(isResurfaced({ ...item, lastSavedAt: NOW + 1 })).toBe(false);
+  });
+
+  it('is false for items never resurfaced or hidden again', () => {
+    const item = makeItem('https://example.com/a', { lastSavedAt: NOW });
+
+    expect(isResurfaced(item)).toBe(false);
+    expect(isResurfaced({ ...item, resurfacedAt: NOW, deletedAt: NOW + 1 })).toBe(false);
+  });
+});
@@ -1,19 +1,24 @@
 import Dexie from 'dexie';
 import { db } from './schema';
-import type { Item, ListOptions } from '@/types';
-import { NOT_DELETED, NOT_FAVORITED, NOT_OPENED } from '@/types';
+import type { Item, ItemViewType, ListOptions, UrlNormalizationRules } from '@/types';
+import { NOT_DELETED, NOT_FAVORITED, NOT_OPENED, NOT_RESURFACED } from '@/types';
 import { normalizeUrl, extractDomain, generateTitleFallback } from '@/lib/utils/url';
 import { generateId } from '@/lib/utils/uuid';
+import { getSearchWords } from '@/lib/utils/search';
+import { mergeTags } from './tags';
+import { getGroupItemIds } from './groups';
 
 /**
  * Create a new item from tab info
  * @param tabCount - Number of tabs with this URL (for relevance scoring)
+ * @param rawTitle - Title before cleanup rules (defaults to title)
  */
 export function createItemFromTab(
   url: string,
   title: string | null,
   favIconUrl: string | null,
-  tabCount: number = 1
+  tabCount: number = 1,
+  rawTitle: string | null = title
 ): Omit<Item, 'itemId'> {
   const now = Date.now();
   const normalizedUrl = normalizeUrl(url);
@@ -24,6 +29,7 @@ export function createItemFromTab(
     url,
     normalizedUrl,
     title: displayTitle,
+    rawTitle: rawTitle ?? '',
     domain,
     favIconUrl,
     createdAt: now,
@@ -32,59 +38,210 @@ export function createItemFromTab(
     favoritedAt: NOT_FAVORITED,
     deletedAt: NOT_DELETED,
     lastOpenedAt: NOT_OPENED,
+    resurfacedAt: NOT_RESURFACED,
+    words: getSearchWords({ title: displayTitle, url, domain }),
+    tags: [],
     updatedAt: now,
   };
 }
 
+export interface UpsertOptions {
+  /**
+   * Whether an existing item's saveCount increases (default true).
+   * New items always start at one save per tab.
+   */
+  countSave?: boolean;
+  /**
+   * Whether an item that fails to write is reported in its result
+   * instead of failing the whole batch (default false).
+   */
+  isolateFailures?: boolean;
+  /**
+   * Rules for matching URLs to existing items (default: query string kept as-is)
+   */
+  normalization?: UrlNormalizationRules;
+  /**
+   * Whether hidden items that are saved again become visible (default false)
+   */
+  resurfaceHidden?: boolean;
+}
+
+export interface ItemUpsertInput {
+  url: string;
+  title: string | null; // Cleaned title
+  rawTitle: string | null; // Title as captured
+  favIconUrl: string | null;
+  tabCount: number; // Number of tabs with this URL (for relevance scoring)
+  tags?: string[]; // Normalized tags to add to the item
+}
+
+export interface ItemUpsertResult {
+  item: Item;
+  isNew: boolean;
+  wasDeleted: boolean;
+  resurfacedFrom: number; // deletedAt cleared by resurfacing (resurfaceHidden only), 0 if none
+  previousLastSavedAt: number; // lastSavedAt before this upsert, 0 for new items
+  tagsAdded: string[]; // Input tags the item did not already have
+  error: string | null; // Set when the write failed (isolateFailures only)
+}
+
+export interface ItemUpsertPlan {
+  results: ItemUpsertResult[]; // One per input, in input order
+  toAdd: Item[];
+  toPut: Item[];
+}
+
 /**
- * Upsert an item (create or update based on normalizedUrl)
- * @param tabCount - Number of tabs with this URL (for relevance scoring)
- * Returns: { item, isNew, wasDeleted }
+ * Work out how a batch of URLs changes the items already stored for them.
+ * Pure, so it can be tested and benchmarked without IndexedDB.
+ * Inputs that share a normalized URL apply to the same item in order.
  */
-export async function upsertItem(
-  url: string,
-  title: string | null,
-  favIconUrl: string | null,
-  tabCount: number = 1
-): Promise<{ item: Item; isNew: boolean; wasDeleted: boolean }> {
-  const normalizedUrl = normalizeUrl(url);
+export function planItemUpserts(
+  inputs: ItemUpsertInput[],
+  existingItems: Item[],
+  options: UpsertOptions = {},
+  now: number = Date.now()
+): ItemUpsertPlan {
+  const { countSave = true, normalization, resurfaceHidden = false } = options;
 
-  const existing = await db.items
-    .where('normalizedUrl')
-    .equals(normalizedUrl)
-    .first();
+  const byNormalizedUrl = new Map(existingItems.map((item) => [item.normalizedUrl, item]));
+  const added = new Map<string, Item>();
+  const updated = new Map<string, Item>();
+  const results: ItemUpsertResult[] = [];
 
-  if (!existing) {
-    // Create new item
-    const itemData = createItemFromTab(url, title, favIconUrl, tabCount);
+  for (const { url, title, rawTitle, favIconUrl, tabCount, tags = [] } of inputs) {
+    const normalizedUrl = normalizeUrl(url, normalization);
+    const existing = byNormalizedUrl.get(normalizedUrl);
+
+    if (!existing) {
+      // Create new item
+      const item: Item = {
+        itemId: generateId(),
+        ...createItemFromTab(url, title, favIconUrl, tabCount, rawTitle),
+        normalizedUrl,
+        tags: mergeTags([], tags),
+        createdAt: now,
+        lastSavedAt: now,
+        updatedAt: now,
+      };
+      byNormalizedUrl.set(normalizedUrl, item);
+      added.set(item.itemId, item);
+      results.push({
+        item,
+        isNew: true,
+        wasDeleted: false,
+        resurfacedFrom: NOT_DELETED,
+        previousLastSavedAt: 0,
+        tagsAdded: item.tags,
+        error: null,
+      });
+      continue;
+    }
+
+    // Update existing item
+    const wasDeleted = existing.deletedAt !== NOT_DELETED;
+    const resurfaced = wasDeleted && resurfaceHidden;
+    const displayTitle = title || generateTitleFallback(url);
     const item: Item = {
-      itemId: generateId(),
-      ...itemData,
+      ...existing,
+      url, // Update to latest URL
+      title: displayTitle,
+      rawTitle: rawTitle ?? '',
+      words: getSearchWords({ title: displayTitle, url, domain: existing.domain }),
+      favIconUrl,
+      lastSavedAt: now,
+      saveCount: countSave ? existing.saveCount + tabCount : existing.saveCount,
+      tags: mergeTags(existing.tags, tags),
+      updatedAt: now,
+      // Hidden items stay hidden unless resurfacing is on
+      ...(resurfaced && { deletedAt: NOT_DELETED, resurfacedAt: now }),
+      // Keep favoritedAt as-is
     };
-    await db.items.add(item);
-    return { item, isNew: true, wasDeleted: false };
-  }
+    byNormalizedUrl.set(normalizedUrl, item);
 
-  // Update existing item
-  const now = Date.now();
-  const wasDeleted = existing.deletedAt !== NOT_DELETED;
-  const displayTitle = title || generateTitleFallback(url);
+    // An item added earlier in this batch is still an add
+    if (added.has(item.itemId)) {
+      added.set(item.itemId, item);
+    } else {
+      updated.set(item.itemId, item);
+    }
 
-  const updates: Partial<Item> = {
-    url, // Update to latest URL
-    title: displayTitle,
-    favIconUrl,
-    lastSavedAt: now,
-    saveCount: existing.saveCount + tabCount,
-    updatedAt: now,
-    // Keep deletedAt as-is (don't resurrect)
-    // Keep favoritedAt as-is
+    results.push({
+      item,
+      isNew: false,
+      wasDeleted,
+      resurfacedFrom: resurfaced ? existing.deletedAt : NOT_DELETED,
+      previousLastSavedAt: existing.lastSavedAt,
+      tagsAdded: item.tags.filter((tag) => !existing.tags.includes(tag)),
+      error: null,
+    });
+  }
+
+  return {
+    results,
+    toAdd: Array.from(added.values()),
+    toPut: Array.from(updated.values()),
   };
+}
 
-  await db.items.update(existing.itemId, updates);
+/**
+ * Run a bulk write of items
+ * With isolateFailures, failed items are collected by itemId (the rest
+ * are still written) instead of the error being thrown.
+ */
+async function bulkWriteItems(
+  write: () => Promise<unknown>,
+  items: Item[],
+  isolateFailures: boolean,
+  failures: Map<string, string>
+): Promise<void> {
+  if (items.length === 0) return;
+
+  try {
+    await write();
+  } catch (error) {
+    if (!isolateFailures || !(error instanceof Dexie.BulkError)) {
+      throw error;
+    }
 
-  const updatedItem = { ...existing, ...updates };
-  return { item: updatedItem, isNew: false, wasDeleted };
+    for (const [position, failure] of Object.entries(error.failuresByPos)) {
+      failures.set(items[Number(position)].itemId, failure.message);
+    }
+  }
+}
+
+/**
+ * Upsert many items at once (create or update based on normalizedUrl)
+ * Looks up all existing items in one indexed query and writes in bulk.
+ * Returns one result per input, in input order.
+ */
+export async function upsertItems(
+  inputs: ItemUpsertInput[],
+  options: UpsertOptions = {}
+): Promise<ItemUpsertResult[]> {
+  if (inputs.length === 0) return [];
+
+  const normalizedUrls = Array.from(
+    new Set(inputs.map((input) => normalizeUrl(input.url, options.normalization)))
+  );
+  const existingItems = await db.items
+    .where('normalizedUrl')
+    .anyOf(normalizedUrls)
+    .toArray();
+
+  const { results, toAdd, toPut } = planItemUpserts(inputs, existingItems, options);
+  const { isolateFailures = false } = options;
+  const failures = new Map<string, string>();
+
+  await bulkWriteItems(() => db.items.bulkAdd(toAdd), toAdd, isolateFailures, failures);
+  await bulkWriteItems(() => db.items.bulkPut(toPut), toPut, isolateFailures, failures);
+
+  if (failures.size === 0) return results;
+
+  return results.map((result) => ({
+    ...result,
+    error: failures.get(result.item.itemId) ?? null,
+  }));
 }
 
 /**
@@ -92,7 +249,15 @@ export async function upsertItem(
  * Uses compound indexes to avoid loading all items into memory.
  */
 export async function listItems(options: ListOptions): Promise<Item[]> {
-  const { view, limit, offset } = options;
+  const { view, limit, offset, tag, group } = options;
+
+  if (group) {
+    return listByGroup(group, tag ?? null, view, limit, offset);
+  }
+
+  if (tag) {
+    return listByTag(tag, view, limit, offset);
+  }
 
   switch (view) {
     case 'new':
@@ -108,6 +273,80 @@ export async function listItems(options: ListOptions): Promise<Item[]> {
   }
 }
 
+/**
+ * Whether an item belongs in a view (the filters listItems applies by index)
+ */
+export function isInView(item: Item, view: ItemViewType): boolean {
+  switch (view) {
+    case 'new':
+    case 'old':
+    case 'frequent':
+      return item.deletedAt === NOT_DELETED;
+    case 'favorites':
+      return item.deletedAt === NOT_DELETED && item.favoritedAt !== NOT_FAVORITED;
+    case 'hidden':
+      return item.deletedAt !== NOT_DELETED;
+  }
+}
+
+/**
+ * Order items the way their view lists them (used to break ranking ties)
+ */
+export function compareInView(a: Item, b: Item, view: ItemViewType): number {
+  switch (view) {
+    case 'new':
+      return b.lastSavedAt - a.lastSavedAt;
+    case 'old':
+      return a.lastSavedAt - b.lastSavedAt;
+    case 'favorites':
+      return b.favoritedAt - a.favoritedAt || b.lastSavedAt - a.lastSavedAt;
+    case 'frequent':
+      return b.saveCount - a.saveCount || b.lastSavedAt - a.lastSavedAt;
+    case 'hidden':
+      return b.deletedAt - a.deletedAt;
+  }
+}
+
+/**
+ * List a view's items that have a tag, in the view's order.
+ * Uses the multiEntry tags index; the view filter and sort run in memory.
+ */
+async function listByTag(
+  tag: string,
+  view: ItemViewType,
+  limit: number,
+  offset: number
+): Promise<Item[]> {
+  const items = await db.items.where('tags').equals(tag).toArray();
+
+  return items
+    .filter((item) => isInView(item, view))
+    .sort((a, b) => compareInView(a, b, view))
+    .slice(offset, offset + limit);
+}
+
+/**
+ * List a view's items ever captured in a tab group with this title,
+ * in the view's order (and with a tag, if given).
+ * Items are found through the captureEvents groupTitle index.
+ */
+async function listByGroup(
+  group: string,
+  tag: string | null,
+  view: ItemViewType,
+  limit: number,
+  offset: number
+): Promise<Item[]> {
+  const itemIds = await getGroupItemIds(group);
+  const items = await db.items.bulkGet(itemIds);
+
+  return items
+    .filter((item): item is Item => item !== undefined)
+    .filter((item) => isInView(item, view) && (!tag || item.tags.includes(tag)))
+    .sort((a, b) => compareInView(a, b, view))
+    .slice(offset, offset + limit);
+}
+
 /**
  * List non-deleted items sorted by lastSavedAt.
  * Uses compound index [deletedAt+lastSavedAt] for efficient query.
@@ -194,6 +433,16 @@ async function listHidden(limit: number, offset: number): Promise<Item[]> {
     .toArray();
 }
 
+/**
+ * Whether an item was brought back from hidden by its most recent save
+ * (the new tab marks these until they're saved again or hidden)
+ */
+export function isResurfaced(item: Item): boolean {
+  return item.resurfacedAt !== NOT_RESURFACED
+    && item.resurfacedAt >= item.lastSavedAt
+    && item.deletedAt === NOT_DELETED;
+}
+
 /**
  * Get a single item by ID
  */
@@ -227,6 +476,7 @@ export async function unsetFavorite(itemId: string): Promise<void> {
 export async function softDelete(itemId: string): Promise<void> {
   await db.items.update(itemId, {
     deletedAt: Date.now(),
+    resurfacedAt: NOT_RESURFACED,
     updatedAt: Date.now(),
   });
 }
@@ -0,0 +1,171 @@
+import { describe, it, expect } from 'vitest';
+import { planRenormalization, planCaptureEventMerge } from './renormalize';
+import { createItemFromTab } from './items';
+import { DEFAULT_URL_NORMALIZATION, NOT_DELETED, NOT_FAVORITED } from '@/types';
+import type { CaptureEvent, Item } from '@/types';
+
+const NOW = 1_700_000_000_000;
+const STRIP_TRACKING = { ...DEFAULT_URL_NORMALIZATION, stripTrackingParams: true };
+
+function makeItem(itemId: string, url: string, overrides: Partial<Item> = {}): Item {
+  return {
+    itemId,
+    ...createItemFromTab(url, 'Title', null, 1),
+    ...overrides,
+  };
+}
+
+function makeEvent(captureId: string, itemId: string, overrides: Partial<CaptureEvent> = {}): CaptureEvent {
+  return {
+    captureId,
+    itemId,
+    capturedAt: NOW,
+    tabCount: 1,
+    windowIds: [1],
+    tabIds: [10],
+    pinnedAny: false,
+    groupId: null,
+    groupTitle: null,
+    groupColor: null,
+    createdItem: false,
+    resurfacedFrom: NOT_DELETED,
+    idleMs: null,
+    previousLastSavedAt: 0,
+    tagsAdded: [],
+    ...overrides,
+  };
+}
+
+describe('planRenormalization', () => {
+  it('changes nothing when the rules match', () => {
+    const items = [makeItem('a', 'https://example.com/a?utm_source=x')];
+    const plan = planRenormalization(items, DEFAULT_URL_NORMALIZATION, NOW);
+
+    expect(plan.toAdd).toHaveLength(0);
+    expect(plan.toDelete).toHaveLength(0);
+    expect(plan.itemsUpdated).toBe(0);
+  });
+
+  it('rewrites the normalized URL of items without a collision', () => {
+    const items = [makeItem('a', 'https://example.com/a?utm_source=x')];
+    const plan = planRenormalization(items, STRIP_TRACKING, NOW);
+
+    expect(plan.toDelete).toEqual(['a']);
+    expect(plan.toAdd).toHaveLength(1);
+    expect(plan.toAdd[0].normalizedUrl).toBe('https://example.com/a');
+    expect(plan.toAdd[0].url).toBe('https://example.com/a?utm_source=x');
+    expect(plan.toAdd[0].updatedAt).toBe(NOW);
+    expect(plan.survivorOf.size).toBe(0);
+  });
+
+  it('merges colliding items into the oldest', () => {
+    const items = [
+      makeItem('old', 'https://example.com/a', {
+        createdAt: 100,
+        lastSavedAt: 200,
+        saveCount: 2,
+        tags: ['work'],
+      }),
+      makeItem('new', 'https://example.com/a?utm_source=x', {
+        title: 'Newer title',
+        createdAt: 300,
+        lastSavedAt: 400,
+        saveCount: 3,
+        favoritedAt: 350,
+        tags: ['later'],
+      }),
+    ];
+    const plan = planRenormalization(items, STRIP_TRACKING, NOW);
+
+    expect(plan.toDelete.sort()).toEqual(['new', 'old']);
+    expect(plan.toAdd).toHaveLength(1);
+    expect(plan.survivorOf.get('new')).toBe('old');
+
+    const merged = plan.toAdd[0];
+    expect(merged.itemId).toBe('old');
+    expect(merged.saveCount).toBe(5);
+    expect(merged.createdAt).toBe(100);
+    expect(merged.lastSavedAt).toBe(400);
+    expect(merged.favoritedAt).toBe(350);
+    expect(merged.title).toBe('Newer title');
+    expect(merged.url).toBe('https://example.com/a?utm_source=x');
+    expect(merged.tags).toEqual(['work', 'later']);
+  });
+
+  it('keeps a merged item visible if any of its items was', () => {
+    const items = [
+      makeItem('a', 'https://example.com/a', { createdAt: 100, deletedAt: 500 }),
+      makeItem('b', 'https://example.com/a?fbclid=1', { createdAt: 200 }),
+    ];
+    const [merged] = planRenormalization(items, STRIP_TRACKING, NOW).toAdd;
+
+    expect(merged.deletedAt).toBe(NOT_DELETED);
+    expect(merged.favoritedAt).toBe(NOT_FAVORITED);
+  });
+
+  it('merges mobile items saved before mobile hosts were folded', () => {
+    const items = [
+      makeItem('desktop', 'https://example.com/a', { createdAt: 100 }),
+      makeItem('mobile', 'https://m.example.com/a', {
+        createdAt: 200,
+        normalizedUrl: 'https://m.example.com/a',
+      }),
+    ];
+    const plan = planRenormalization(items, DEFAULT_URL_NORMALIZATION, NOW);
+
+    expect(plan.survivorOf.get('mobile')).toBe('desktop');
+    expect(plan.toAdd).toHaveLength(1);
+    expect(plan.toAdd[0].normalizedUrl).toBe('https://example.com/a');
+    expect(plan.toAdd[0].saveCount).toBe(2);
+  });
+});
+
+describe('planCaptureEventMerge', () => {
+  it('repoints events to the surviving item', () => {
+    const survivorOf = new Map([['b', 'a']]);
+    const { toDelete, toPut } = planCaptureEventMerge([makeEvent('c1', 'b')], survivorOf);
+
+    expect(toDelete).toEqual([['c1', 'b']]);
+    expect(toPut).toHaveLength(1);
+    expect(toPut[0].itemId).toBe('a');
+  });
+
+  it('combines events that land on the same capture and item', () => {
+    const survivorOf = new Map([['b', 'a']]);
+    const events = [
+      makeEvent('c1', 'a', { tabCount: 1, windowIds: [1], tabIds: [10], idleMs: 5000 }),
+      makeEvent('c1', 'b', {
+        tabCount: 2,
+        windowIds: [1, 2],
+        tabIds: [11, 12],
+        pinnedAny: true,
+        groupId: 3,
+        groupTitle: 'Work',
+        groupColor: 'blue',
+        idleMs: 1000,
+      }),
+    ];
+    const { toDelete, toPut } = planCaptureEventMerge(events, survivorOf);
+
+    expect(toDelete).toEqual([['c1', 'b']]);
+    expect(toPut).toHaveLength(1);
+    expect(toPut[0]).toMatchObject({
+      captureId: 'c1',
+      itemId: 'a',
+      tabCount: 3,
+      windowIds: [1, 2],
+      tabIds: [10, 11, 12],
+      pinnedAny: true,
+      groupTitle: 'Work',
+      idleMs: 1000,
+    });
+  });
+
+  it('leaves events of unmerged items alone', () => {
+    const survivorOf = new Map([['b', 'a']]);
+    const { toDelete, toPut } = planCaptureEventMerge([makeEvent('c1', 'a')], survivorOf);
+
+    expect(toDelete).toHaveLength(0);
+    expect(toPut).toHaveLength(0);
+  });
+});
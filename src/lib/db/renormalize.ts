@@ -0,0 +1,183 @@
+import { db } from './schema';
+import type { Item, CaptureEvent, UrlNormalizationRules } from '@/types';
+import { NOT_DELETED, NOT_FAVORITED, NOT_RESURFACED } from '@/types';
+import { normalizeUrl } from '@/lib/utils/url';
+
+export interface RenormalizeResult {
+  itemsUpdated: number; // Items whose normalized URL changed
+  itemsMerged: number; // Items folded into another item with the same URL
+}
+
+export interface RenormalizePlan {
+  toDelete: string[]; // Item IDs to remove (rewritten or merged away)
+  toAdd: Item[]; // Final versions of rewritten and surviving items
+  survivorOf: Map<string, string>; // Merged-away item ID -> surviving item ID
+  itemsUpdated: number;
+}
+
+export interface CaptureEventMergePlan {
+  toDelete: [string, string][]; // [captureId, itemId] keys of moved events
+  toPut: CaptureEvent[];
+}
+
+/**
+ * Work out how items change under new normalization rules.
+ * Pure, so it can be tested without IndexedDB.
+ *
+ * Items that now share a normalized URL are merged into the oldest one:
+ * save counts are summed, the oldest createdAt and latest lastSavedAt win,
+ * the item stays favorited/visible if any of them was, and URL, title and
+ * favicon come from the most recently saved item.
+ */
+export function planRenormalization(
+  items: Item[],
+  rules: UrlNormalizationRules,
+  now: number = Date.now()
+): RenormalizePlan {
+  const groups = new Map<string, Item[]>();
+  for (const item of items) {
+    const normalizedUrl = normalizeUrl(item.url, rules);
+    const group = groups.get(normalizedUrl) ?? [];
+    group.push(item);
+    groups.set(normalizedUrl, group);
+  }
+
+  const plan: RenormalizePlan = { toDelete: [], toAdd: [], survivorOf: new Map(), itemsUpdated: 0 };
+
+  for (const [normalizedUrl, group] of groups) {
+    if (group.length === 1) {
+      const [item] = group;
+      if (item.normalizedUrl === normalizedUrl) continue;
+
+      plan.toDelete.push(item.itemId);
+      plan.toAdd.push({ ...item, normalizedUrl, updatedAt: now });
+      plan.itemsUpdated++;
+      continue;
+    }
+
+    const merged = mergeItems(group, normalizedUrl, now);
+    for (const item of group) {
+      plan.toDelete.push(item.itemId);
+      if (item.itemId !== merged.itemId) {
+        plan.survivorOf.set(item.itemId, merged.itemId);
+      }
+    }
+    plan.toAdd.push(merged);
+    plan.itemsUpdated++;
+  }
+
+  return plan;
+}
+
+function mergeItems(group: Item[], normalizedUrl: string, now: number): Item {
+  const survivor = group.reduce((oldest, item) => (item.createdAt < oldest.createdAt ? item : oldest));
+  const latest = group.reduce((newest, item) => (item.lastSavedAt > newest.lastSavedAt ? item : newest));
+  const favoritedAts = group.map((item) => item.favoritedAt).filter((at) => at !== NOT_FAVORITED);
+  const anyVisible = group.some((item) => item.deletedAt === NOT_DELETED);
+
+  return {
+    ...survivor,
+    url: latest.url,
+    normalizedUrl,
+    title: latest.title,
+    rawTitle: latest.rawTitle,
+    domain: latest.domain,
+    favIconUrl: latest.favIconUrl ?? group.find((item) => item.favIconUrl)?.favIconUrl ?? null,
+    createdAt: survivor.createdAt,
+    lastSavedAt: latest.lastSavedAt,
+    saveCount: group.reduce((sum, item) => sum + item.saveCount, 0),
+    favoritedAt: favoritedAts.length > 0 ? Math.min(...favoritedAts) : NOT_FAVORITED,
+    deletedAt: anyVisible ? NOT_DELETED : Math.max(...group.map((item) => item.deletedAt)),
+    lastOpenedAt: Math.max(...group.map((item) => item.lastOpenedAt)),
+    words: latest.words,
+    tags: Array.from(new Set(group.flatMap((item) => item.tags))),
+    resurfacedAt: anyVisible ? Math.max(...group.map((item) => item.resurfacedAt)) : NOT_RESURFACED,
+    updatedAt: now,
+  };
+}
+
+/**
+ * Repoint capture events from merged-away items to their survivors.
+ * Pure. Events that land on the same capture and item are combined,
+ * since [captureId+itemId] is the primary key.
+ */
+export function planCaptureEventMerge(
+  events: CaptureEvent[],
+  survivorOf: Map<string, string>
+): CaptureEventMergePlan {
+  const groups = new Map<string, { events: CaptureEvent[]; moved: boolean }>();
+  const toDelete: [string, string][] = [];
+
+  for (const event of events) {
+    const survivorId = survivorOf.get(event.itemId);
+    if (survivorId) {
+      toDelete.push([event.captureId, event.itemId]);
+    }
+
+    const itemId = survivorId ?? event.itemId;
+    const key = `${event.captureId}:${itemId}`;
+    const group = groups.get(key) ?? { events: [], moved: false };
+    group.events.push({ ...event, itemId });
+    group.moved ||= survivorId !== undefined;
+    groups.set(key, group);
+  }
+
+  const toPut = [...groups.values()]
+    .filter((group) => group.moved)
+    .map((group) => mergeCaptureEvents(group.events));
+
+  return { toDelete, toPut };
+}
+
+function mergeCaptureEvents(events: CaptureEvent[]): CaptureEvent {
+  const [first] = events;
+  const grouped = events.find((event) => event.groupId !== null);
+  const idleTimes = events.map((event) => event.idleMs).filter((ms): ms is number => ms !== null);
+
+  return {
+    ...first,
+    tabCount: events.reduce((sum, event) => sum + event.tabCount, 0),
+    windowIds: [...new Set(events.flatMap((event) => event.windowIds))],
+    tabIds: events.flatMap((event) => event.tabIds),
+    pinnedAny: events.some((event) => event.pinnedAny),
+    groupId: grouped?.groupId ?? null,
+    groupTitle: grouped?.groupTitle ?? null,
+    groupColor: grouped?.groupColor ?? null,
+    createdItem: events.some((event) => event.createdItem),
+    resurfacedFrom: events.find((event) => event.resurfacedFrom !== NOT_DELETED)?.resurfacedFrom ?? NOT_DELETED,
+    idleMs: idleTimes.length > 0 ? Math.min(...idleTimes) : null,
+    // The merged item was last saved when the latest of its items was
+    previousLastSavedAt: Math.max(...events.map((event) => event.previousLastSavedAt)),
+    tagsAdded: [...new Set(events.flatMap((event) => event.tagsAdded))],
+  };
+}
+
+/**
+ * Re-normalize every saved item with the given rules, merging items
+ * that now share a URL and repointing their capture events.
+ * Runs in a single transaction.
+ */
+export async function renormalizeItems(rules: UrlNormalizationRules): Promise<RenormalizeResult> {
+  return db.transaction('rw', [db.items, db.captureEvents], async () => {
+    const items = await db.items.toArray();
+    const plan = planRenormalization(items, rules);
+    if (plan.toAdd.length === 0) {
+      return { itemsUpdated: 0, itemsMerged: 0 };
+    }
+
+    // Delete before adding so rewritten URLs never clash on the unique index
+    await db.items.bulkDelete(plan.toDelete);
+    await db.items.bulkAdd(plan.toAdd);
+
+    if (plan.survivorOf.size > 0) {
+      const affectedIds = [...plan.survivorOf.keys(), ...new Set(plan.survivorOf.values())];
+      const events = await db.captureEvents.where('itemId').anyOf(affectedIds).toArray();
+      const eventPlan = planCaptureEventMerge(events, plan.survivorOf);
+
+      await db.captureEvents.bulkDelete(eventPlan.toDelete);
+      await db.captureEvents.bulkPut(eventPlan.toPut);
+    }
+
+    return { itemsUpdated: plan.itemsUpdated, itemsMerged: plan.survivorOf.size };
+  });
+}
@@ -1,13 +1,21 @@
 import Dexie, { type Table } from 'dexie';
 import type { Item, Capture, CaptureEvent } from '@/types';
+import { NOT_DELETED, NOT_RESURFACED } from '@/types';
+import { isIncognitoContext } from '@/lib/utils/incognito';
+import { getSearchWords } from '@/lib/utils/search';
+
+export const DB_NAME = 'bmbl';
+
+// Incognito captures live in their own database, never mixed into the main backlog
+export const INCOGNITO_DB_NAME = 'bmbl-incognito';
 
 export class BmblDatabase extends Dexie {
   items!: Table<Item, string>;
   captures!: Table<Capture, string>;
   captureEvents!: Table<CaptureEvent, [string, string]>;
 
-  constructor() {
-    super('bmbl');
+  constructor(name: string = DB_NAME) {
+    super(name);
 
     // Version 1: Original schema
     this.version(1).stores({
@@ -135,8 +143,299 @@ export class BmblDatabase extends Dexie {
             }
           });
       });
+
+    // Version 6: Add scope to Capture (scoped capture modes)
+    this.version(6)
+      .stores({
+        items: 'itemId, &normalizedUrl, [deletedAt+lastSavedAt], [deletedAt+favoritedAt], [deletedAt+saveCount], deletedAt, updatedAt',
+        captures: 'captureId, createdAt',
+        captureEvents: '[captureId+itemId], captureId, itemId, capturedAt, groupTitle',
+      })
+      .upgrade((tx) => {
+        // Every capture before this version covered all tabs
+        return tx
+          .table('captures')
+          .toCollection()
+          .modify((capture: Record<string, unknown>) => {
+            if (capture.scope === undefined) {
+              capture.scope = { type: 'all' };
+            }
+          });
+      });
+
+    // Version 7: Add trigger to Capture (scheduled automatic snapshots)
+    this.version(7)
+      .stores({
+        items: 'itemId, &normalizedUrl, [deletedAt+lastSavedAt], [deletedAt+favoritedAt], [deletedAt+saveCount], deletedAt, updatedAt',
+        captures: 'captureId, createdAt',
+        captureEvents: '[captureId+itemId], captureId, itemId, capturedAt, groupTitle',
+      })
+      .upgrade((tx) => {
+        // Every capture before this version was started by the user
+        return tx
+          .table('captures')
+          .toCollection()
+          .modify((capture: Record<string, unknown>) => {
+            if (capture.trigger === undefined) {
+              capture.trigger = 'manual';
+            }
+          });
+      });
+
+    // Version 8: Add tabCountSkippedByRule to Capture (exclusion rules)
+    this.version(8)
+      .stores({
+        items: 'itemId, &normalizedUrl, [deletedAt+lastSavedAt], [deletedAt+favoritedAt], [deletedAt+saveCount], deletedAt, updatedAt',
+        captures: 'captureId, createdAt',
+        captureEvents: '[captureId+itemId], captureId, itemId, capturedAt, groupTitle',
+      })
+      .upgrade((tx) => {
+        return tx
+          .table('captures')
+          .toCollection()
+          .modify((capture: Record<string, unknown>) => {
+            if (capture.tabCountSkippedByRule === undefined) {
+              capture.tabCountSkippedByRule = 0;
+            }
+          });
+      });
+
+    // Version 9: Link captures to their events (undo capture)
+    // Before this version createCapture generated its own captureId, so a
+    // Capture row never shared its ID with its CaptureEvents. Each orphaned
+    // event batch is matched to the first capture created at or after its
+    // capturedAt, since the capture row was always written last.
+    // Also records createdItem on events and savesCounted on captures.
+    this.version(9)
+      .stores({
+        items: 'itemId, &normalizedUrl, [deletedAt+lastSavedAt], [deletedAt+favoritedAt], [deletedAt+saveCount], deletedAt, updatedAt',
+        captures: 'captureId, createdAt',
+        captureEvents: '[captureId+itemId], captureId, itemId, capturedAt, groupTitle',
+      })
+      .upgrade(async (tx) => {
+        const capturesTable = tx.table('captures');
+        const eventsTable = tx.table('captureEvents');
+
+        await capturesTable.toCollection().modify((capture: Record<string, unknown>) => {
+          if (capture.savesCounted === undefined) {
+            capture.savesCounted = true;
+          }
+        });
+
+        const captures = (await capturesTable.orderBy('createdAt').toArray()) as Capture[];
+        const events = (await eventsTable.toArray()) as CaptureEvent[];
+        const items = (await tx.table('items').toArray()) as Item[];
+
+        const captureIds = new Set(captures.map((c) => c.captureId));
+        const linkedCaptureIds = new Set(events.map((e) => e.captureId));
+        const itemCreatedAt = new Map(items.map((i) => [i.itemId, i.createdAt]));
+
+        // Group orphaned events by their (unmatched) captureId
+        const orphanBatches = new Map<string, CaptureEvent[]>();
+        for (const event of events) {
+          if (captureIds.has(event.captureId)) continue;
+          const batch = orphanBatches.get(event.captureId) ?? [];
+          batch.push(event);
+          orphanBatches.set(event.captureId, batch);
+        }
+
+        // Match each batch (oldest first) to the next unlinked capture
+        const batches = Array.from(orphanBatches.values()).sort(
+          (a, b) => a[0].capturedAt - b[0].capturedAt
+        );
+        const captureById = new Map(captures.map((c) => [c.captureId, c]));
+        const relinked: CaptureEvent[] = [];
+        const staleKeys: [string, string][] = [];
+
+        for (const batch of batches) {
+          const capturedAt = batch[0].capturedAt;
+          const match = captures.find(
+            (c) => c.createdAt >= capturedAt && !linkedCaptureIds.has(c.captureId)
+          );
+          if (!match) continue;
+          linkedCaptureIds.add(match.captureId);
+
+          for (const event of batch) {
+            staleKeys.push([event.captureId, event.itemId]);
+            relinked.push({ ...event, captureId: match.captureId });
+          }
+        }
+
+        await eventsTable.bulkDelete(staleKeys);
+        await eventsTable.bulkPut(relinked);
+
+        // Best guess for createdItem: the item was created during the capture
+        await eventsTable.toCollection().modify((event: CaptureEvent) => {
+          if (event.createdItem !== undefined) return;
+          const createdAt = itemCreatedAt.get(event.itemId);
+          const capture = captureById.get(event.captureId);
+          event.createdItem =
+            createdAt !== undefined &&
+            createdAt >= event.capturedAt &&
+            (!capture || createdAt <= capture.createdAt);
+        });
+      });
+
+    // Version 10: Add idleMs to CaptureEvent (idle-tab harvest)
+    this.version(10)
+      .stores({
+        items: 'itemId, &normalizedUrl, [deletedAt+lastSavedAt], [deletedAt+favoritedAt], [deletedAt+saveCount], deletedAt, updatedAt',
+        captures: 'captureId, createdAt',
+        captureEvents: '[captureId+itemId], captureId, itemId, capturedAt, groupTitle',
+      })
+      .upgrade((tx) => {
+        // Idle age was not recorded before this version
+        return tx
+          .table('captureEvents')
+          .toCollection()
+          .modify((event: Record<string, unknown>) => {
+            if (event.idleMs === undefined) {
+              event.idleMs = null;
+            }
+          });
+      });
+
+    // Version 11: Add failures to Capture (per-tab failure isolation)
+    this.version(11)
+      .stores({
+        items: 'itemId, &normalizedUrl, [deletedAt+lastSavedAt], [deletedAt+favoritedAt], [deletedAt+saveCount], deletedAt, updatedAt',
+        captures: 'captureId, createdAt',
+        captureEvents: '[captureId+itemId], captureId, itemId, capturedAt, groupTitle',
+      })
+      .upgrade((tx) => {
+        return tx
+          .table('captures')
+          .toCollection()
+          .modify((capture: Record<string, unknown>) => {
+            if (capture.failures === undefined) {
+              capture.failures = [];
+            }
+          });
+      });
+
+    // Version 12: Add name to Capture (capture preview)
+    this.version(12)
+      .stores({
+        items: 'itemId, &normalizedUrl, [deletedAt+lastSavedAt], [deletedAt+favoritedAt], [deletedAt+saveCount], deletedAt, updatedAt',
+        captures: 'captureId, createdAt',
+        captureEvents: '[captureId+itemId], captureId, itemId, capturedAt, groupTitle',
+      })
+      .upgrade((tx) => {
+        return tx
+          .table('captures')
+          .toCollection()
+          .modify((capture: Record<string, unknown>) => {
+            if (capture.name === undefined) {
+              capture.name = null;
+            }
+          });
+      });
+
+    // Version 13: Add rawTitle to Item (title cleanup rules)
+    this.version(13)
+      .stores({
+        items: 'itemId, &normalizedUrl, [deletedAt+lastSavedAt], [deletedAt+favoritedAt], [deletedAt+saveCount], deletedAt, updatedAt',
+        captures: 'captureId, createdAt',
+        captureEvents: '[captureId+itemId], captureId, itemId, capturedAt, groupTitle',
+      })
+      .upgrade((tx) => {
+        return tx
+          .table('items')
+          .toCollection()
+          .modify((item: Record<string, unknown>) => {
+            if (item.rawTitle === undefined) {
+              item.rawTitle = item.title;
+            }
+          });
+      });
+
+    // Version 14: Track resurfaced items (resurface hidden items on recapture)
+    // Adds resurfacedAt to Item, tabCountResurfaced to Capture, and
+    // resurfacedFrom to CaptureEvent. Nothing was resurfaced before this version.
+    this.version(14)
+      .stores({
+        items: 'itemId, &normalizedUrl, [deletedAt+lastSavedAt], [deletedAt+favoritedAt], [deletedAt+saveCount], deletedAt, updatedAt',
+        captures: 'captureId, createdAt',
+        captureEvents: '[captureId+itemId], captureId, itemId, capturedAt, groupTitle',
+      })
+      .upgrade(async (tx) => {
+        await tx.table('items').toCollection().modify((item: Record<string, unknown>) => {
+          if (item.resurfacedAt === undefined) {
+            item.resurfacedAt = NOT_RESURFACED;
+          }
+        });
+        await tx.table('captures').toCollection().modify((capture: Record<string, unknown>) => {
+          if (capture.tabCountResurfaced === undefined) {
+            capture.tabCountResurfaced = 0;
+          }
+        });
+        await tx.table('captureEvents').toCollection().modify((event: Record<string, unknown>) => {
+          if (event.resurfacedFrom === undefined) {
+            event.resurfacedFrom = NOT_DELETED;
+          }
+        });
+      });
+
+    // Version 15: Add words to Item, with a multiEntry index (full-text search)
+    this.version(15)
+      .stores({
+        items: 'itemId, &normalizedUrl, [deletedAt+lastSavedAt], [deletedAt+favoritedAt], [deletedAt+saveCount], deletedAt, updatedAt, *words',
+        captures: 'captureId, createdAt',
+        captureEvents: '[captureId+itemId], captureId, itemId, capturedAt, groupTitle',
+      })
+      .upgrade((tx) => {
+        return tx
+          .table('items')
+          .toCollection()
+          .modify((item: Item) => {
+            if (item.words === undefined) {
+              item.words = getSearchWords(item);
+            }
+          });
+      });
+
+    // Version 16: Add tags to Item, with a multiEntry index (tags and collections)
+    this.version(16)
+      .stores({
+        items: 'itemId, &normalizedUrl, [deletedAt+lastSavedAt], [deletedAt+favoritedAt], [deletedAt+saveCount], deletedAt, updatedAt, *words, *tags',
+        captures: 'captureId, createdAt',
+        captureEvents: '[captureId+itemId], captureId, itemId, capturedAt, groupTitle',
+      })
+      .upgrade((tx) => {
+        return tx
+          .table('items')
+          .toCollection()
+          .modify((item: Record<string, unknown>) => {
+            if (item.tags === undefined) {
+              item.tags = [];
+            }
+          });
+      });
+
+    // Version 17: Record what a capture changed on each item, so undo can put it back
+    // Adds previousLastSavedAt and tagsAdded to CaptureEvent. Older events fall back
+    // to the remaining saves on undo, as before.
+    this.version(17)
+      .stores({
+        items: 'itemId, &normalizedUrl, [deletedAt+lastSavedAt], [deletedAt+favoritedAt], [deletedAt+saveCount], deletedAt, updatedAt, *words, *tags',
+        captures: 'captureId, createdAt',
+        captureEvents: '[captureId+itemId], captureId, itemId, capturedAt, groupTitle',
+      })
+      .upgrade((tx) => {
+        return tx
+          .table('captureEvents')
+          .toCollection()
+          .modify((event: Record<string, unknown>) => {
+            if (event.previousLastSavedAt === undefined) {
+              event.previousLastSavedAt = 0;
+            }
+            if (event.tagsAdded === undefined) {
+              event.tagsAdded = [];
+            }
+          });
+      });
   }
 }
 
-// Singleton database instance
-export const db = new BmblDatabase();
+// Singleton database instance (the incognito backlog in incognito pages and workers)
+export const db = new BmblDatabase(isIncognitoContext() ? INCOGNITO_DB_NAME : DB_NAME);
@@ -0,0 +1,58 @@
+import { describe, it, expect } from 'vitest';
+import { rankSearchResults, scoreSearchMatch } from './search';
+import { createItemFromTab } from './items';
+import type { Item } from '@/types';
+
+const NOW = 1_700_000_000_000;
+
+function makeItem(itemId: string, url: string, title: string, overrides: Partial<Item> = {}): Item {
+  return {
+    itemId,
+    ...createItemFromTab(url, title, null, 1),
+    lastSavedAt: NOW,
+    ...overrides,
+  };
+}
+
+describe('scoreSearchMatch', () => {
+  const item = makeItem('a', 'https://github.com/dexie/Dexie.js', 'Dexie.js wrapper');
+
+  it('scores whole title words above prefixes, domain, and URL', () => {
+    expect(scoreSearchMatch(item, ['dexie'])).toBe(3);
+    expect(scoreSearchMatch(item, ['wrap'])).toBe(2);
+    expect(scoreSearchMatch(item, ['github'])).toBe(2);
+  });
+
+  it('requires every term to match', () => {
+    expect(scoreSearchMatch(item, ['dexie', 'react'])).toBe(0);
+  });
+});
+
+describe('rankSearchResults', () => {
+  it('ranks better matches first, then by the view order', () => {
+    const items = [
+      makeItem('url-only', 'https://example.com/react', 'Example', { lastSavedAt: NOW + 2 }),
+      makeItem('older', 'https://a.com/', 'React hooks', { lastSavedAt: NOW }),
+      makeItem('newer', 'https://b.com/', 'React docs', { lastSavedAt: NOW + 1 }),
+    ];
+
+    const ranked = rankSearchResults(items, ['react'], 'new');
+
+    expect(ranked.map((item) => item.itemId)).toEqual(['newer', 'older', 'url-only']);
+  });
+
+  it("applies the view's filters", () => {
+    const items = [
+      makeItem('visible', 'https://a.com/', 'React'),
+      makeItem('hidden', 'https://b.com/', 'React', { deletedAt: NOW }),
+      makeItem('favorite', 'https://c.com/', 'React', { favoritedAt: NOW }),
+    ];
+
+    expect(rankSearchResults(items, ['react'], 'new').map((item) => item.itemId))
+      .toEqual(['visible', 'favorite']);
+    expect(rankSearchResults(items, ['react'], 'hidden').map((item) => item.itemId))
+      .toEqual(['hidden']);
+    expect(rankSearchResults(items, ['react'], 'favorites').map((item) => item.itemId))
+      .toEqual(['favorite']);
+  });
+});
@@ -0,0 +1,84 @@
+import { db } from './schema';
+import type { Item, ItemViewType, SearchOptions, SearchPage } from '@/types';
+import { isInView, compareInView } from './items';
+import { getGroupItemIds } from './groups';
+import { tokenize, tokenizeUrl, parseSearchQuery } from '@/lib/utils/search';
+
+/**
+ * Score how well an item matches the search terms
+ * Per term: whole title word 3, title word prefix 2, domain 2, URL 1.
+ * Returns 0 if any term doesn't match at all.
+ */
+export function scoreSearchMatch(item: Pick<Item, 'title' | 'url' | 'domain'>, terms: string[]): number {
+  const titleWords = tokenize(item.title);
+  const domainWords = tokenize(item.domain);
+  const urlWords = tokenizeUrl(item.url);
+  let score = 0;
+
+  for (const term of terms) {
+    const termScore = titleWords.includes(term) ? 3
+      : titleWords.some((word) => word.startsWith(term)) ? 2
+      : domainWords.some((word) => word.startsWith(term)) ? 2
+      : urlWords.some((word) => word.startsWith(term)) ? 1
+      : 0;
+
+    if (termScore === 0) return 0;
+    score += termScore;
+  }
+
+  return score;
+}
+
+/**
+ * Filter candidates to a view and rank them, best match first
+ * Pure, so it can be tested without IndexedDB. Items that score
+ * the same keep the view's own order.
+ */
+export function rankSearchResults(items: Item[], terms: string[], view: ItemViewType): Item[] {
+  return items
+    .filter((item) => isInView(item, view))
+    .map((item) => ({ item, score: scoreSearchMatch(item, terms) }))
+    .filter(({ score }) => score > 0)
+    .sort((a, b) => b.score - a.score || compareInView(a.item, b.item, view))
+    .map(({ item }) => item);
+}
+
+/**
+ * Search items in a view by title, URL, and domain
+ * Every query term must prefix-match one of an item's indexed words.
+ * Candidates come from the multiEntry words index; ranking happens in memory.
+ */
+export async function searchItems(query: string, options: SearchOptions): Promise<SearchPage> {
+  const { view, tag = null, group = null, limit, cursor = null } = options;
+  const terms = parseSearchQuery(query);
+  if (terms.length === 0) {
+    return { items: [], nextCursor: null };
+  }
+
+  // Narrow the candidates one term at a time
+  let candidateIds = new Set(await db.items.where('words').startsWith(terms[0]).primaryKeys());
+  for (const term of terms.slice(1)) {
+    if (candidateIds.size === 0) break;
+    const matched = new Set(await db.items.where('words').startsWith(term).primaryKeys());
+    candidateIds = new Set(Array.from(candidateIds).filter((itemId) => matched.has(itemId)));
+  }
+
+  if (group && candidateIds.size > 0) {
+    const inGroup = new Set(await getGroupItemIds(group));
+    candidateIds = new Set(Array.from(candidateIds).filter((itemId) => inGroup.has(itemId)));
+  }
+
+  const candidates = await db.items.bulkGet(Array.from(candidateIds));
+  const ranked = rankSearchResults(
+    candidates.filter((item): item is Item => item !== undefined && (!tag || item.tags.includes(tag))),
+    terms,
+    view
+  );
+
+  const start = cursor ?? 0;
+  const end = start + limit;
+  return {
+    items: ranked.slice(start, end),
+    nextCursor: end < ranked.length ? end : null,
+  };
+}
@@ -0,0 +1,33 @@
+import { describe, it, expect } from 'vitest';
+import { normalizeTag, normalizeTags, mergeTags, MAX_TAG_LENGTH } from './tags';
+
+describe('normalizeTag', () => {
+  it('trims, lowercases, and collapses whitespace', () => {
+    expect(normalizeTag('  Read   Later ')).toBe('read later');
+  });
+
+  it('returns an empty string for blank names', () => {
+    expect(normalizeTag('   ')).toBe('');
+  });
+
+  it('caps the length', () => {
+    expect(normalizeTag('x'.repeat(50))).toHaveLength(MAX_TAG_LENGTH);
+  });
+});
+
+describe('normalizeTags', () => {
+  it('drops blanks, duplicates, and non-strings', () => {
+    expect(normalizeTags(['Work', 'work ', '', 42, null, 'Reading'])).toEqual(['work', 'reading']);
+  });
+
+  it('returns no tags for anything but a list', () => {
+    expect(normalizeTags('work')).toEqual([]);
+    expect(normalizeTags(undefined)).toEqual([]);
+  });
+});
+
+describe('mergeTags', () => {
+  it('keeps every tag from both lists once', () => {
+    expect(mergeTags(['work', 'rust'], ['rust', 'later'])).toEqual(['work', 'rust', 'later']);
+  });
+});
@@ -0,0 +1,105 @@
+import { db } from './schema';
+import type { TagCount } from '@/types';
+
+export const MAX_TAG_LENGTH = 32;
+
+/**
+ * Normalize a tag name: trimmed, lowercase, inner whitespace collapsed
+ * Returns '' for names that can't be a tag.
+ */
+export function normalizeTag(name: string): string {
+  return name.trim().toLowerCase().replace(/\s+/g, ' ').slice(0, MAX_TAG_LENGTH).trim();
+}
+
+/**
+ * Normalize a list of tag names, dropping blanks, duplicates, and non-strings
+ * (used for tags read from import files)
+ */
+export function normalizeTags(names: unknown): string[] {
+  if (!Array.isArray(names)) return [];
+
+  const tags = names
+    .filter((name): name is string => typeof name === 'string')
+    .map(normalizeTag)
+    .filter(Boolean);
+  return Array.from(new Set(tags));
+}
+
+/**
+ * Combine two tag lists (import merges keep every tag from both)
+ */
+export function mergeTags(a: string[], b: string[]): string[] {
+  return Array.from(new Set([...a, ...b]));
+}
+
+/**
+ * Add a tag to an item
+ * Returns the normalized tag, or null if the name is blank.
+ */
+export async function addTag(itemId: string, name: string): Promise<string | null> {
+  const tag = normalizeTag(name);
+  if (!tag) return null;
+
+  await db.items.where('itemId').equals(itemId).modify((item) => {
+    if (item.tags.includes(tag)) return;
+    item.tags = [...item.tags, tag];
+    item.updatedAt = Date.now();
+  });
+  return tag;
+}
+
+/**
+ * Remove a tag from an item
+ */
+export async function removeTag(itemId: string, tag: string): Promise<void> {
+  await db.items.where('itemId').equals(itemId).modify((item) => {
+    item.tags = item.tags.filter((t) => t !== tag);
+    item.updatedAt = Date.now();
+  });
+}
+
+/**
+ * Rename a tag on every item that has it
+ * Items that already have the new name just lose the old one.
+ * Returns the number of items changed.
+ */
+export async function renameTag(from: string, to: string): Promise<number> {
+  const tag = normalizeTag(to);
+  if (!tag) {
+    throw new Error('Tag name is required');
+  }
+  if (tag === from) return 0;
+
+  const now = Date.now();
+  return db.items.where('tags').equals(from).modify((item) => {
+    item.tags = mergeTags(item.tags.filter((t) => t !== from), [tag]);
+    item.updatedAt = now;
+  });
+}
+
+/**
+ * Remove a tag from every item
+ * Returns the number of items changed.
+ */
+export async function deleteTag(tag: string): Promise<number> {
+  const now = Date.now();
+  return db.items.where('tags').equals(tag).modify((item) => {
+    item.tags = item.tags.filter((t) => t !== tag);
+    item.updatedAt = now;
+  });
+}
+
+/**
+ * List every tag in use with its item count, sorted by name
+ * Reads the tags index only (one key per item and tag).
+ */
+export async function listTags(): Promise<TagCount[]> {
+  const keys = (await db.items.orderBy('tags').keys()) as string[];
+
+  const counts = new Map<string, number>();
+  for (const tag of keys) {
+    counts.set(tag, (counts.get(tag) ?? 0) + 1);
+  }
+
+  return Array.from(counts, ([tag, count]) => ({ tag, count }));
+}
@@ -1,6 +1,8 @@
 import { db } from '@/lib/db/schema';
+import { isIncognitoContext } from '@/lib/utils/incognito';
 import { NOT_DELETED } from '@/types';
 import type { BmblExport, ExportOptions, ExportedItem } from './types';
+import { browser, getBrowserName } from '@/lib/browser';
 
 /**
  * Export items to JSON format
@@ -14,8 +16,8 @@ export async function exportToJson(options: ExportOptions): Promise<BmblExport>
   // Get extension version safely
   let extensionVersion = '0.0.0';
   try {
-    if (typeof chrome !== 'undefined' && chrome.runtime?.getManifest) {
-      extensionVersion = chrome.runtime.getManifest().version;
+    if (typeof browser !== 'undefined' && browser.runtime?.getManifest) {
+      extensionVersion = browser.runtime.getManifest().version;
     }
   } catch {
     // Ignore - use default version
@@ -34,6 +36,8 @@ export async function exportToJson(options: ExportOptions): Promise<BmblExport>
     ...(item.favoritedAt > 0 && { favoritedAt: item.favoritedAt }),
     // Only include deletedAt if deleted (and includeHidden is true)
     ...(item.deletedAt > 0 && { deletedAt: item.deletedAt }),
+    // Only include tags if the item has any
+    ...(item.tags.length > 0 && { tags: item.tags }),
   }));
 
   const exportData: BmblExport = {
@@ -41,7 +45,7 @@ export async function exportToJson(options: ExportOptions): Promise<BmblExport>
     exportedAt: new Date().toISOString(),
     source: {
       extensionVersion,
-      browser: 'chrome',
+      browser: getBrowserName(),
     },
     options: {
       includeHidden: options.includeHidden,
@@ -82,8 +86,10 @@ export function triggerDownload(blob: Blob, filename: string): void {
 
 /**
  * Generate a filename for the export
+ * Incognito exports are named apart so they aren't mistaken for the main backlog.
  */
 export function generateExportFilename(): string {
   const date = new Date().toISOString().split('T')[0];
-  return `bmbl-export-${date}.json`;
+  const prefix = isIncognitoContext() ? 'bmbl-incognito-export' : 'bmbl-export';
+  return `${prefix}-${date}.json`;
 }
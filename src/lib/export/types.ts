@@ -16,6 +16,7 @@ export interface ExportedItem {
   saveCount?: number;
   favoritedAt?: number;
   deletedAt?: number;
+  tags?: string[];
 }
 
 export interface BmblExport {
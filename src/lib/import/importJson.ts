@@ -1,7 +1,10 @@
 import { db } from '@/lib/db/schema';
-import { normalizeUrl, extractDomain, isCapturableUrl } from '@/lib/utils/url';
+import { normalizeUrl, extractDomain, isCapturableUrl, unwrapUrl } from '@/lib/utils/url';
 import { generateId } from '@/lib/utils/uuid';
-import { NOT_DELETED, NOT_FAVORITED, NOT_OPENED } from '@/types';
+import { getSearchWords } from '@/lib/utils/search';
+import { normalizeTags, mergeTags } from '@/lib/db/tags';
+import { getSettings } from '@/lib/settings';
+import { NOT_DELETED, NOT_FAVORITED, NOT_OPENED, NOT_RESURFACED } from '@/types';
 import type { BmblExport, ExportedItem } from '@/lib/export/types';
 import type { ImportOptions, ImportResult } from './types';
 
@@ -21,17 +24,20 @@ export async function importFromJson(
   };
 
   const seenUrls = new Set<string>();
+  const { urlNormalization } = await getSettings();
 
   try {
     await db.transaction('rw', db.items, async () => {
-      for (const item of data.items) {
+      for (const exported of data.items) {
+        const item = unwrapImportedItem(exported);
+
         // Skip invalid URLs
         if (!item.url || !isCapturableUrl(item.url)) {
           result.errors.push(`Skipped invalid URL: ${item.url}`);
           continue;
         }
 
-        const normalizedUrl = normalizeUrl(item.url);
+        const normalizedUrl = normalizeUrl(item.url, urlNormalization);
 
         // Skip duplicates within the import file
         if (seenUrls.has(normalizedUrl)) {
@@ -72,12 +78,23 @@ export async function importFromJson(
   return result;
 }
 
+/**
+ * Replace a wrapped URL (redirect, suspended tab, ...) with its target
+ * The domain is re-derived when the URL changes.
+ */
+function unwrapImportedItem(item: ExportedItem): ExportedItem {
+  if (!item.url) return item;
+
+  const url = unwrapUrl(item.url);
+  return url === item.url ? item : { ...item, url, domain: extractDomain(url) };
+}
+
 /**
  * Merge imported item data into existing item
  */
 async function mergeItem(
   itemId: string,
-  existing: { saveCount: number; lastSavedAt: number; createdAt: number; favoritedAt: number; deletedAt: number; favIconUrl: string | null },
+  existing: { saveCount: number; lastSavedAt: number; createdAt: number; favoritedAt: number; deletedAt: number; favIconUrl: string | null; tags: string[] },
   imported: ExportedItem
 ): Promise<void> {
   await db.items.update(itemId, {
@@ -93,6 +110,8 @@ async function mergeItem(
     deletedAt: imported.deletedAt ? existing.deletedAt : NOT_DELETED,
     // Fill in favicon if existing has none
     favIconUrl: existing.favIconUrl || imported.favIconUrl || null,
+    // Keep tags from both
+    tags: mergeTags(existing.tags, normalizeTags(imported.tags)),
     updatedAt: Date.now(),
   });
 }
@@ -113,6 +132,7 @@ async function insertItem(
     url: item.url,
     normalizedUrl,
     title,
+    rawTitle: item.title || '',
     domain,
     favIconUrl: item.favIconUrl ?? null,
     createdAt: item.createdAt || now,
@@ -121,6 +141,9 @@ async function insertItem(
     favoritedAt: item.favoritedAt || NOT_FAVORITED,
     deletedAt: item.deletedAt || NOT_DELETED,
     lastOpenedAt: NOT_OPENED,
+    resurfacedAt: NOT_RESURFACED,
+    words: getSearchWords({ title, url: item.url, domain }),
+    tags: normalizeTags(item.tags),
     updatedAt: now,
   });
 }
@@ -0,0 +1,105 @@
+import { exportToJson } from '@/lib/export/exportJson';
+import { generateId } from '@/lib/utils/uuid';
+import { browser } from '@/lib/browser';
+import { importFromJson } from './importJson';
+import type { BmblExport } from '@/lib/export/types';
+import type { ImportResult } from './types';
+
+// The incognito and normal contexts can't open each other's database,
+// but they share extension storage, so the backlog is handed over there
+const MERGE_REQUEST_KEY = 'incognitoMergeRequest';
+const MERGE_RESULT_KEY = 'incognitoMergeResult';
+const MERGE_TIMEOUT_MS = 60_000;
+
+// Requests are handled one at a time, so one can't be imported twice
+let pendingMerge: Promise<unknown> = Promise.resolve();
+
+interface MergeRequest {
+  requestId: string;
+  data: BmblExport;
+}
+
+interface MergeResult {
+  requestId: string;
+  result: ImportResult;
+}
+
+/**
+ * Merge the incognito backlog (including hidden items) into the main one
+ * Called from incognito pages; the normal service worker does the import
+ * (see handleIncognitoMergeRequest). Items already in the main backlog
+ * are merged, as with a JSON import. The incognito backlog is kept.
+ */
+export async function mergeIncognitoBacklog(): Promise<ImportResult> {
+  const request: MergeRequest = {
+    requestId: generateId(),
+    data: await exportToJson({ includeHidden: true }),
+  };
+
+  const result = waitForMergeResult(request.requestId);
+  await browser.storage.local.set({ [MERGE_REQUEST_KEY]: request });
+  return result;
+}
+
+function waitForMergeResult(requestId: string): Promise<ImportResult> {
+  return new Promise((resolve, reject) => {
+    const timeout = setTimeout(() => {
+      browser.storage.local.onChanged.removeListener(listener);
+      reject(new Error('The main backlog did not respond. Try again.'));
+    }, MERGE_TIMEOUT_MS);
+
+    const listener = (changes: { [key: string]: chrome.storage.StorageChange }) => {
+      const merged = changes[MERGE_RESULT_KEY]?.newValue as MergeResult | undefined;
+      if (merged?.requestId !== requestId) return;
+
+      clearTimeout(timeout);
+      browser.storage.local.onChanged.removeListener(listener);
+      resolve(merged.result);
+    };
+
+    browser.storage.local.onChanged.addListener(listener);
+  });
+}
+
+/**
+ * Import a pending incognito backlog into the main one, if there is one
+ * (called from the normal service worker on startup and when a request arrives).
+ * Returns the import result, or null if nothing was pending.
+ */
+export function handleIncognitoMergeRequest(): Promise<ImportResult | null> {
+  const run = pendingMerge.then(importPendingRequest);
+  pendingMerge = run.catch(() => undefined);
+  return run;
+}
+
+async function importPendingRequest(): Promise<ImportResult | null> {
+  const stored = await browser.storage.local.get(MERGE_REQUEST_KEY);
+  const request = stored[MERGE_REQUEST_KEY] as MergeRequest | undefined;
+  if (!request) {
+    return null;
+  }
+
+  await browser.storage.local.remove(MERGE_REQUEST_KEY);
+
+  const result = await importFromJson(request.data, { conflictStrategy: 'merge' });
+  const merged: MergeResult = { requestId: request.requestId, result };
+  await browser.storage.local.set({ [MERGE_RESULT_KEY]: merged });
+
+  return result;
+}
+
+/**
+ * Subscribe to incognito merge requests (normal service worker only)
+ */
+export function onIncognitoMergeRequest(callback: () => void): () => void {
+  const listener = (changes: { [key: string]: chrome.storage.StorageChange }) => {
+    if (changes[MERGE_REQUEST_KEY]?.newValue) {
+      callback();
+    }
+  };
+
+  browser.storage.local.onChanged.addListener(listener);
+
+  // Return unsubscribe function
+  return () => browser.storage.local.onChanged.removeListener(listener);
+}
@@ -2,3 +2,4 @@ export * from './types';
 export * from './validate';
 export * from './importJson';
 export * from './parseHtml';
+export * from './incognitoMerge';
@@ -1,4 +1,4 @@
-import { isCapturableUrl } from '@/lib/utils/url';
+import { isCapturableUrl, unwrapUrl } from '@/lib/utils/url';
 
 /**
  * Parsed bookmark from Netscape HTML format
@@ -29,8 +29,11 @@ export function parseNetscapeBookmarks(html: string): ParsedBookmark[] {
   const links = doc.querySelectorAll('a[href]');
 
   links.forEach((link) => {
-    const url = link.getAttribute('href');
-    if (!url) return;
+    const href = link.getAttribute('href');
+    if (!href) return;
+
+    // Recover the target of redirect and suspended-tab links
+    const url = unwrapUrl(href);
 
     // Only include capturable URLs (http/https)
     if (!isCapturableUrl(url)) return;
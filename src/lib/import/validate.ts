@@ -1,4 +1,4 @@
-import { isCapturableUrl } from '@/lib/utils/url';
+import { isCapturableUrl, unwrapUrl } from '@/lib/utils/url';
 import type { BmblExport, ExportedItem } from '@/lib/export/types';
 import type { ValidationResult } from './types';
 import { parseNetscapeBookmarks, isNetscapeBookmarkHtml } from './parseHtml';
@@ -143,8 +143,8 @@ export function validateJsonContent(content: string): ValidationResult {
       continue;
     }
 
-    // Validate URL is capturable
-    if (!isCapturableUrl(item.url)) {
+    // Validate URL is capturable (after unwrapping, as on import)
+    if (!isCapturableUrl(unwrapUrl(item.url))) {
       errors.push(`Item ${i + 1}: URL not supported (must be http/https): ${item.url}`);
       invalidItems++;
       continue;
@@ -168,6 +168,13 @@ export function validateJsonContent(content: string): ValidationResult {
       }
     }
 
+    // Warn on malformed tags
+    if (item.tags !== undefined && !Array.isArray(item.tags)) {
+      if (warnings.length < 10) {
+        warnings.push(`Item ${i + 1}: tags are not a list, will be ignored`);
+      }
+    }
+
     validItems++;
   }
 
@@ -1,3 +1,4 @@
+import { browser } from '@/lib/browser';
 import type { Settings } from '@/types';
 import { DEFAULT_SETTINGS } from '@/types';
 
@@ -7,7 +8,7 @@ const SETTINGS_KEY = 'settings';
  * Get all settings
  */
 export async function getSettings(): Promise<Settings> {
-  const result = await chrome.storage.sync.get(SETTINGS_KEY);
+  const result = await browser.storage.sync.get(SETTINGS_KEY);
   const stored = result[SETTINGS_KEY] as Partial<Settings> | undefined;
   const settings = { ...DEFAULT_SETTINGS, ...stored };
 
@@ -27,16 +28,16 @@ export async function getSettings(): Promise<Settings> {
 export async function updateSettings(updates: Partial<Settings>): Promise<void> {
   const current = await getSettings();
   const newSettings = { ...current, ...updates };
-  await chrome.storage.sync.set({ [SETTINGS_KEY]: newSettings });
+  await browser.storage.sync.set({ [SETTINGS_KEY]: newSettings });
 }
 
 /**
  * Initialize settings on install
  */
 export async function initializeSettings(): Promise<void> {
-  const result = await chrome.storage.sync.get(SETTINGS_KEY);
+  const result = await browser.storage.sync.get(SETTINGS_KEY);
   if (!result[SETTINGS_KEY]) {
-    await chrome.storage.sync.set({ [SETTINGS_KEY]: DEFAULT_SETTINGS });
+    await browser.storage.sync.set({ [SETTINGS_KEY]: DEFAULT_SETTINGS });
   }
 }
 
@@ -51,8 +52,8 @@ export function onSettingsChange(callback: (settings: Settings) => void): () =>
     }
   };
 
-  chrome.storage.sync.onChanged.addListener(listener);
+  browser.storage.sync.onChanged.addListener(listener);
 
   // Return unsubscribe function
-  return () => chrome.storage.sync.onChanged.removeListener(listener);
+  return () => browser.storage.sync.onChanged.removeListener(listener);
 }
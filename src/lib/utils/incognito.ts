@@ -0,0 +1,10 @@
+import { browser } from '@/lib/browser';
+
+/**
+ * Check whether this extension instance serves incognito windows
+ * bmbl runs in split incognito mode, so incognito windows get their own
+ * service worker and pages. Safe to call where extension APIs are unavailable (tests).
+ */
+export function isIncognitoContext(): boolean {
+  return typeof browser !== 'undefined' && browser.extension?.inIncognitoContext === true;
+}
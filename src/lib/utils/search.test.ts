@@ -0,0 +1,50 @@
+import { describe, it, expect } from 'vitest';
+import { tokenize, getSearchWords, parseSearchQuery } from './search';
+
+describe('tokenize', () => {
+  it('lowercases and splits on anything but letters and digits', () => {
+    expect(tokenize('React 19: What’s New?')).toEqual(['react', '19', 'what', 's', 'new']);
+  });
+
+  it('removes accents', () => {
+    expect(tokenize('Café Crème')).toEqual(['cafe', 'creme']);
+  });
+
+  it('keeps non-Latin letters', () => {
+    expect(tokenize('東京 ガイド')).toEqual(['東京', 'ガイド']);
+  });
+});
+
+describe('getSearchWords', () => {
+  it('indexes title, domain, and URL words once each', () => {
+    const words = getSearchWords({
+      title: 'Dexie Docs',
+      url: 'https://www.dexie.org/docs/Tutorial?lang=en',
+      domain: 'dexie.org',
+    });
+
+    expect(words).toEqual(['dexie', 'docs', 'org', 'tutorial', 'lang', 'en']);
+  });
+
+  it('leaves out single characters and common URL parts', () => {
+    const words = getSearchWords({ title: 'A b c', url: 'http://example.com/x', domain: 'example.com' });
+
+    expect(words).toEqual(['example', 'com']);
+  });
+
+  it('truncates very long words', () => {
+    const [word] = getSearchWords({ title: 'a'.repeat(50), url: '', domain: '' });
+
+    expect(word).toHaveLength(32);
+  });
+});
+
+describe('parseSearchQuery', () => {
+  it('returns unique terms', () => {
+    expect(parseSearchQuery('  Dexie dexie  docs ')).toEqual(['dexie', 'docs']);
+  });
+
+  it('returns no terms for punctuation only', () => {
+    expect(parseSearchQuery(' -- ')).toEqual([]);
+  });
+});
@@ -0,0 +1,61 @@
+import type { Item } from '@/types';
+
+const MIN_WORD_LENGTH = 2; // Shorter words are left out of the index
+const MAX_WORD_LENGTH = 32; // Longer words are indexed by their start
+const MAX_WORDS = 100; // Per item, title words first
+
+// Parts of most URLs, too common to be worth indexing
+const URL_NOISE_WORDS = new Set(['http', 'https', 'www']);
+
+/**
+ * Split text into lowercase search words
+ * Accents are removed ("café" matches "cafe") and anything that isn't
+ * a letter or digit separates words.
+ */
+export function tokenize(text: string): string[] {
+  return text
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '') // Combining accents only; other scripts keep their marks
+    .normalize('NFC')
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter(Boolean);
+}
+
+/**
+ * Split a URL's host, path, and query into search words
+ */
+export function tokenizeUrl(url: string): string[] {
+  try {
+    const parsed = new URL(url);
+    return tokenize(`${parsed.hostname} ${parsed.pathname} ${parsed.search}`)
+      .filter((word) => !URL_NOISE_WORDS.has(word));
+  } catch {
+    return tokenize(url);
+  }
+}
+
+/**
+ * Build the words an item is indexed under, from its title, domain, and URL
+ * Stored on the item (multiEntry index), so it must be rebuilt whenever
+ * any of the three change.
+ */
+export function getSearchWords(item: Pick<Item, 'title' | 'url' | 'domain'>): string[] {
+  const words = new Set<string>();
+  const all = [...tokenize(item.title), ...tokenize(item.domain), ...tokenizeUrl(item.url)];
+
+  for (const word of all) {
+    if (word.length < MIN_WORD_LENGTH) continue;
+    words.add(word.slice(0, MAX_WORD_LENGTH));
+    if (words.size >= MAX_WORDS) break;
+  }
+
+  return Array.from(words);
+}
+
+/**
+ * Split a search query into terms, each matched as a word prefix
+ */
+export function parseSearchQuery(query: string): string[] {
+  return Array.from(new Set(tokenize(query).map((term) => term.slice(0, MAX_WORD_LENGTH))));
+}
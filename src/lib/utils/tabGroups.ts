@@ -0,0 +1,21 @@
+/**
+ * Chrome tab group colors as displayed in the tab strip
+ */
+const TAB_GROUP_COLORS: Record<string, string> = {
+  grey: '#5f6368',
+  blue: '#1a73e8',
+  red: '#d93025',
+  yellow: '#f9ab00',
+  green: '#188038',
+  pink: '#d01884',
+  purple: '#a142f4',
+  cyan: '#007b83',
+  orange: '#fa903e',
+};
+
+/**
+ * Get a CSS color for a Chrome tab group color name (grey if unknown)
+ */
+export function getTabGroupColor(color: string | null): string {
+  return (color && TAB_GROUP_COLORS[color]) || TAB_GROUP_COLORS.grey;
+}
@@ -1,5 +1,17 @@
 import { describe, it, expect } from 'vitest';
-import { isCapturableUrl, normalizeUrl, extractDomain, generateTitleFallback, isValidFaviconUrl } from './url';
+import {
+  isCapturableUrl,
+  normalizeUrl,
+  extractDomain,
+  generateTitleFallback,
+  isValidFaviconUrl,
+  unwrapUrl,
+  parseParamList,
+  validateQueryParamRule,
+  type UrlUnwrapper,
+} from './url';
+import { DEFAULT_URL_NORMALIZATION } from '@/types';
+import type { UrlNormalizationRules } from '@/types';
 
 describe('isCapturableUrl', () => {
   it('allows http URLs', () => {
@@ -35,11 +47,164 @@ describe('isCapturableUrl', () => {
   });
 });
 
+describe('unwrapUrl', () => {
+  describe('tab suspenders', () => {
+    it('unwraps an unencoded uri in the fragment', () => {
+      const url = 'chrome-extension://klbibkeccnjlkjkiokjodocebajanakg/suspended.html#ttl=Example&pos=0&uri=https://example.com/page';
+      expect(unwrapUrl(url)).toBe('https://example.com/page');
+    });
+
+    it('keeps the target query string and fragment', () => {
+      const url = 'chrome-extension://abc/suspended.html#ttl=T&uri=https://example.com/search?q=a&b=c#results';
+      expect(unwrapUrl(url)).toBe('https://example.com/search?q=a&b=c#results');
+    });
+
+    it('decodes an encoded url parameter', () => {
+      const url = 'chrome-extension://abc/suspended.html#url=https%3A%2F%2Fexample.com%2Fa%3Fx%3D1';
+      expect(unwrapUrl(url)).toBe('https://example.com/a?x=1');
+    });
+
+    it('unwraps park pages and Firefox extensions', () => {
+      expect(unwrapUrl('chrome-extension://abc/park.html?title=T&url=https%3A%2F%2Fexample.com%2F'))
+        .toBe('https://example.com/');
+      expect(unwrapUrl('moz-extension://abc/suspended.html#uri=https://example.com/x'))
+        .toBe('https://example.com/x');
+    });
+
+    it('leaves other extension pages alone', () => {
+      const url = 'chrome-extension://abc/options.html#uri=https://example.com';
+      expect(unwrapUrl(url)).toBe(url);
+    });
+
+    it('leaves a suspended page without a target alone', () => {
+      const url = 'chrome-extension://abc/suspended.html#ttl=Example';
+      expect(unwrapUrl(url)).toBe(url);
+    });
+  });
+
+  describe('redirects', () => {
+    it('unwraps Google redirect links', () => {
+      expect(unwrapUrl('https://www.google.com/url?sa=t&q=https%3A%2F%2Fexample.com%2Fpost&usg=abc'))
+        .toBe('https://example.com/post');
+      expect(unwrapUrl('https://www.google.co.uk/url?url=https://example.com/a'))
+        .toBe('https://example.com/a');
+    });
+
+    it('leaves other Google pages alone', () => {
+      const url = 'https://www.google.com/search?q=https%3A%2F%2Fexample.com';
+      expect(unwrapUrl(url)).toBe(url);
+    });
+
+    it('ignores lookalike Google hosts', () => {
+      const url = 'https://google.evil.com/url?q=https%3A%2F%2Fexample.com';
+      expect(unwrapUrl(url)).toBe(url);
+      expect(unwrapUrl('https://www.google.example.net/amp/s/example.com/a'))
+        .toBe('https://www.google.example.net/amp/s/example.com/a');
+    });
+
+    it('unwraps Facebook outbound links', () => {
+      expect(unwrapUrl('https://l.facebook.com/l.php?u=https%3A%2F%2Fexample.com%2Fa&h=AT0'))
+        .toBe('https://example.com/a');
+      expect(unwrapUrl('https://lm.facebook.com/l.php?u=https%3A%2F%2Fexample.com%2F'))
+        .toBe('https://example.com/');
+    });
+
+    it('ignores redirects to non-URLs', () => {
+      const url = 'https://www.google.com/url?q=not%20a%20url';
+      expect(unwrapUrl(url)).toBe(url);
+    });
+  });
+
+  describe('AMP', () => {
+    it('unwraps the Google AMP viewer', () => {
+      expect(unwrapUrl('https://www.google.com/amp/s/example.com/news/story.amp.html'))
+        .toBe('https://example.com/news/story.amp.html');
+      expect(unwrapUrl('https://www.google.com/amp/example.com/page'))
+        .toBe('http://example.com/page');
+    });
+
+    it('unwraps the AMP cache', () => {
+      expect(unwrapUrl('https://example-com.cdn.ampproject.org/c/s/example.com/post?x=1'))
+        .toBe('https://example.com/post?x=1');
+    });
+
+    it('leaves publisher /amp paths alone', () => {
+      const url = 'https://github.com/ampproject/amp';
+      expect(unwrapUrl(url)).toBe(url);
+    });
+  });
+
+  it('keeps mobile hosts, which are only folded for deduplication', () => {
+    expect(unwrapUrl('https://m.example.com/page')).toBe('https://m.example.com/page');
+  });
+
+  it('unwraps nested wrappers', () => {
+    const google = 'https://www.google.com/url?q=https%3A%2F%2Fexample.com%2Fa';
+    const suspended = `chrome-extension://abc/suspended.html#ttl=T&uri=${google}`;
+    expect(unwrapUrl(suspended)).toBe('https://example.com/a');
+  });
+
+  it('returns ordinary and unparseable URLs unchanged', () => {
+    expect(unwrapUrl('https://Example.com/Path/')).toBe('https://Example.com/Path/');
+    expect(unwrapUrl('not a url')).toBe('not a url');
+    expect(unwrapUrl('')).toBe('');
+  });
+
+  it('makes wrapped URLs capturable and deduplicable', () => {
+    const url = 'chrome-extension://abc/suspended.html#uri=https://example.com/page/';
+    expect(isCapturableUrl(url)).toBe(false);
+    expect(isCapturableUrl(unwrapUrl(url))).toBe(true);
+    expect(normalizeUrl(unwrapUrl(url))).toBe(normalizeUrl('https://example.com/page'));
+  });
+
+  it('accepts custom unwrappers', () => {
+    const outbound: UrlUnwrapper = (url) =>
+      url.hostname === 'out.example.com' ? url.searchParams.get('to') : null;
+
+    expect(unwrapUrl('https://out.example.com/?to=https%3A%2F%2Ftarget.com%2F', [outbound]))
+      .toBe('https://target.com/');
+    expect(unwrapUrl('https://m.example.com/', [outbound])).toBe('https://m.example.com/');
+  });
+
+  it('stops after a bounded number of steps', () => {
+    let count = 0;
+    const endless: UrlUnwrapper = () => `https://example.com/${++count}`;
+    expect(unwrapUrl('https://example.com/0', [endless])).toBe('https://example.com/5');
+  });
+});
+
 describe('normalizeUrl', () => {
   it('lowercases hostname', () => {
     expect(normalizeUrl('https://EXAMPLE.COM/path')).toBe('https://example.com/path');
   });
 
+  describe('mobile subdomains', () => {
+    it('folds m. and mobile. subdomains', () => {
+      expect(normalizeUrl('https://m.example.com/page')).toBe('https://example.com/page');
+      expect(normalizeUrl('https://mobile.twitter.com/user')).toBe('https://twitter.com/user');
+    });
+
+    it('folds a nested m label', () => {
+      expect(normalizeUrl('https://en.m.wikipedia.org/wiki/URL')).toBe('https://en.wikipedia.org/wiki/URL');
+    });
+
+    it('keeps the registrable domain', () => {
+      expect(normalizeUrl('https://m.com/page')).toBe('https://m.com/page');
+      expect(normalizeUrl('https://example.m/page')).toBe('https://example.m/page');
+    });
+
+    it('keeps the registrable domain under two-level suffixes', () => {
+      expect(normalizeUrl('https://m.co.uk/page')).toBe('https://m.co.uk/page');
+      expect(normalizeUrl('https://m.com.au/page')).toBe('https://m.com.au/page');
+      expect(normalizeUrl('https://m.bbc.co.uk/news')).toBe('https://bbc.co.uk/news');
+      expect(normalizeUrl('https://mobile.example.com.au/')).toBe('https://example.com.au/');
+    });
+
+    it('leaves lookalike subdomains alone', () => {
+      expect(normalizeUrl('https://mail.example.com/')).toBe('https://mail.example.com/');
+    });
+  });
+
   it('removes fragment', () => {
     expect(normalizeUrl('https://example.com/page#section')).toBe('https://example.com/page');
   });
@@ -60,6 +225,82 @@ describe('normalizeUrl', () => {
     const url = 'https://WWW.Example.COM/Path/To/Page?query=1#hash';
     expect(normalizeUrl(url)).toBe('https://www.example.com/Path/To/Page?query=1');
   });
+
+  describe('with rules', () => {
+    const rules = (overrides: Partial<UrlNormalizationRules>): UrlNormalizationRules => ({
+      ...DEFAULT_URL_NORMALIZATION,
+      ...overrides,
+    });
+
+    it('keeps tracking parameters by default', () => {
+      expect(normalizeUrl('https://example.com/?utm_source=x')).toBe('https://example.com/?utm_source=x');
+    });
+
+    it('strips tracking parameters', () => {
+      const url = 'https://example.com/post?id=7&utm_source=news&UTM_Medium=email&fbclid=abc';
+      expect(normalizeUrl(url, rules({ stripTrackingParams: true }))).toBe('https://example.com/post?id=7');
+    });
+
+    it('drops the query string when only tracking parameters remain', () => {
+      expect(normalizeUrl('https://example.com/post?gclid=1', rules({ stripTrackingParams: true })))
+        .toBe('https://example.com/post');
+    });
+
+    it('keeps the original encoding when nothing is stripped', () => {
+      const url = 'https://example.com/search?q=a%20b';
+      expect(normalizeUrl(url, rules({ stripTrackingParams: true }))).toBe(url);
+    });
+
+    it('strips per-domain parameters on the domain and its subdomains', () => {
+      const youtube = rules({
+        paramRules: [{ id: '1', domain: 'youtube.com', params: ['t', 'si'], enabled: true }],
+      });
+
+      expect(normalizeUrl('https://www.youtube.com/watch?v=abc&t=42', youtube))
+        .toBe('https://www.youtube.com/watch?v=abc');
+      expect(normalizeUrl('https://music.youtube.com/watch?v=abc&si=x', youtube))
+        .toBe('https://music.youtube.com/watch?v=abc');
+      expect(normalizeUrl('https://example.com/watch?v=abc&t=42', youtube))
+        .toBe('https://example.com/watch?v=abc&t=42');
+    });
+
+    it('ignores disabled per-domain rules', () => {
+      const disabled = rules({
+        paramRules: [{ id: '1', domain: 'youtube.com', params: ['t'], enabled: false }],
+      });
+      expect(normalizeUrl('https://youtube.com/watch?v=abc&t=42', disabled))
+        .toBe('https://youtube.com/watch?v=abc&t=42');
+    });
+
+    it('folds www', () => {
+      expect(normalizeUrl('https://WWW.example.com/a', rules({ foldWww: true }))).toBe('https://example.com/a');
+    });
+
+    it('folds http into https', () => {
+      expect(normalizeUrl('http://example.com/a', rules({ foldScheme: true }))).toBe('https://example.com/a');
+    });
+  });
+});
+
+describe('parseParamList', () => {
+  it('splits on commas and spaces, dropping blanks and duplicates', () => {
+    expect(parseParamList(' t, si  feature,,t ')).toEqual(['t', 'si', 'feature']);
+  });
+});
+
+describe('validateQueryParamRule', () => {
+  it('accepts a domain with parameters', () => {
+    expect(validateQueryParamRule({ domain: 'youtube.com', params: ['t'] })).toBeNull();
+  });
+
+  it('requires a bare domain', () => {
+    expect(validateQueryParamRule({ domain: '', params: ['t'] })).not.toBeNull();
+    expect(validateQueryParamRule({ domain: 'https://youtube.com', params: ['t'] })).not.toBeNull();
+  });
+
+  it('requires at least one parameter', () => {
+    expect(validateQueryParamRule({ domain: 'youtube.com', params: [] })).not.toBeNull();
+  });
 });
 
 describe('extractDomain', () => {
@@ -1,3 +1,128 @@
+import { DEFAULT_URL_NORMALIZATION } from '@/types';
+import type { QueryParamRule, UrlNormalizationRules } from '@/types';
+
+/**
+ * Recovers the target of a wrapper URL, or returns null if it doesn't apply
+ */
+export type UrlUnwrapper = (url: URL) => string | null;
+
+// Wrappers can nest (e.g. a suspended tab of a Google redirect)
+const MAX_UNWRAP_DEPTH = 5;
+
+// Google's own hosts: google.com, google.de, google.co.uk, google.com.au
+const GOOGLE_HOSTNAME = /^(www\.)?google\.(com|[a-z]{2}|co\.[a-z]{2}|com\.[a-z]{2})$/i;
+
+// Country suffixes registered one level down, e.g. co.uk, com.au
+const TWO_LEVEL_SUFFIX = /^(co|com)\.[a-z]{2}$/;
+
+/**
+ * Tab suspender pages: chrome-extension://<id>/suspended.html#ttl=…&uri=<url>
+ * The target is usually the unencoded tail of the fragment or query.
+ */
+export function unwrapSuspendedTab(url: URL): string | null {
+  if (url.protocol !== 'chrome-extension:' && url.protocol !== 'moz-extension:') return null;
+  if (!/\/(suspended|park)\.html$/i.test(url.pathname)) return null;
+
+  const match = /[#?&](?:uri|url)=(.+)$/.exec(url.href);
+  if (!match) return null;
+
+  return decodeIfEncoded(match[1]);
+}
+
+/**
+ * Google redirect links: https://www.google.com/url?q=<url>
+ */
+export function unwrapGoogleRedirect(url: URL): string | null {
+  if (!GOOGLE_HOSTNAME.test(url.hostname) || url.pathname !== '/url') return null;
+  return url.searchParams.get('q') || url.searchParams.get('url');
+}
+
+/**
+ * Facebook outbound links: https://l.facebook.com/l.php?u=<url>
+ */
+export function unwrapFacebookRedirect(url: URL): string | null {
+  if (!/^(l|lm)\.facebook\.com$/i.test(url.hostname) || url.pathname !== '/l.php') return null;
+  return url.searchParams.get('u');
+}
+
+/**
+ * AMP pages
+ * - Google AMP viewer: https://www.google.com/amp/s/example.com/post
+ * - AMP cache: https://example-com.cdn.ampproject.org/c/s/example.com/post
+ * Publisher paths like /post/amp are left alone, since /amp can be a real page.
+ */
+export function unwrapAmp(url: URL): string | null {
+  const viewer = /^\/amp\/(s\/)?(.+)$/.exec(url.pathname);
+  if (viewer && GOOGLE_HOSTNAME.test(url.hostname)) {
+    return `${viewer[1] ? 'https' : 'http'}://${viewer[2]}${url.search}`;
+  }
+
+  const cache = /^\/[cv]\/(s\/)?(.+)$/.exec(url.pathname);
+  if (cache && url.hostname.endsWith('.cdn.ampproject.org')) {
+    return `${cache[1] ? 'https' : 'http'}://${cache[2]}${url.search}`;
+  }
+
+  return null;
+}
+
+/**
+ * Unwrapping stages, tried in order until one applies
+ */
+export const URL_UNWRAPPERS: UrlUnwrapper[] = [
+  unwrapSuspendedTab,
+  unwrapGoogleRedirect,
+  unwrapFacebookRedirect,
+  unwrapAmp,
+];
+
+/**
+ * Recover the real target of a wrapped URL
+ * Runs before isCapturableUrl and normalizeUrl, for captured tabs and
+ * imported bookmarks alike. Unwrapping repeats until no stage applies;
+ * a stage that yields an unparseable URL is ignored.
+ */
+export function unwrapUrl(url: string, unwrappers: UrlUnwrapper[] = URL_UNWRAPPERS): string {
+  let current = url;
+
+  for (let depth = 0; depth < MAX_UNWRAP_DEPTH; depth++) {
+    let parsed: URL;
+    try {
+      parsed = new URL(current);
+    } catch {
+      return current;
+    }
+
+    const next = findUnwrapped(parsed, unwrappers);
+    if (!next || next === current) return current;
+    current = next;
+  }
+
+  return current;
+}
+
+function findUnwrapped(url: URL, unwrappers: UrlUnwrapper[]): string | null {
+  for (const unwrap of unwrappers) {
+    const target = unwrap(url);
+    if (!target) continue;
+
+    try {
+      return new URL(target).href;
+    } catch {
+      // Not a usable URL; let the next stage try
+    }
+  }
+  return null;
+}
+
+function decodeIfEncoded(value: string): string {
+  if (/^[a-z][a-z0-9+.-]*:\/\//i.test(value)) return value;
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    return value;
+  }
+}
+
 /**
  * Check if a URL should be captured (http/https only)
  */
@@ -12,19 +137,71 @@ export function isCapturableUrl(url: string): boolean {
   }
 }
 
+/**
+ * Query parameters used only for tracking (exact names, plus any utm_* parameter)
+ */
+export const TRACKING_PARAMS = [
+  'fbclid',
+  'gclid',
+  'dclid',
+  'gbraid',
+  'wbraid',
+  'msclkid',
+  'yclid',
+  'twclid',
+  'igshid',
+  'mc_cid',
+  'mc_eid',
+  '_hsenc',
+  '_hsmi',
+  'mkt_tok',
+  '_gl',
+];
+
+/**
+ * Fold a mobile hostname into the desktop one, for deduplication only:
+ * m.example.com, mobile.example.com, en.m.wikipedia.org
+ * (the desktop host may not exist, so saved URLs keep the mobile host)
+ */
+export function foldMobileHostname(hostname: string): string {
+  const labels = hostname.split('.');
+  const index = labels.findIndex((label) => label === 'm' || label === 'mobile');
+
+  // Keep at least a registrable domain (never turn m.co into co or m.co.uk into co.uk)
+  const suffixLabels = TWO_LEVEL_SUFFIX.test(labels.slice(-2).join('.')) ? 2 : 1;
+  if (index === -1 || index >= labels.length - 1 - suffixLabels) return hostname;
+
+  return [...labels.slice(0, index), ...labels.slice(index + 1)].join('.');
+}
+
+/**
+ * Version of the fixed normalizeUrl rules. Bump it when they change
+ * so saved items are re-keyed once (see lib/capture/normalization.ts).
+ */
+export const URL_NORMALIZATION_VERSION = 2;
+
 /**
  * Normalize a URL for deduplication
- * - Lowercase hostname
+ * - Lowercase hostname, folding mobile subdomains
  * - Remove fragment (hash)
- * - Keep query string (V1)
+ * - Keep query string, minus tracking and per-domain ignored parameters (per rules)
  * - Remove trailing slash (except for root)
+ * - Optionally fold http into https and strip www.
  */
-export function normalizeUrl(url: string): string {
+export function normalizeUrl(
+  url: string,
+  rules: UrlNormalizationRules = DEFAULT_URL_NORMALIZATION
+): string {
   try {
     const parsed = new URL(url);
 
+    const protocol = rules.foldScheme && parsed.protocol === 'http:' ? 'https:' : parsed.protocol;
+
     // Lowercase hostname
-    const hostname = parsed.hostname.toLowerCase();
+    let hostname = foldMobileHostname(parsed.hostname.toLowerCase());
+    if (rules.foldWww && hostname.startsWith('www.')) {
+      hostname = hostname.slice(4);
+    }
 
     // Get pathname, remove trailing slash if not root
     let pathname = parsed.pathname;
@@ -32,17 +209,77 @@ export function normalizeUrl(url: string): string {
       pathname = pathname.slice(0, -1);
     }
 
-    // Keep search (query string), remove hash
-    const search = parsed.search;
+    // Keep search (query string) minus ignored params, remove hash
+    const search = stripIgnoredParams(parsed, hostname, rules);
 
     // Recompose
-    return `${parsed.protocol}//${hostname}${pathname}${search}`;
+    return `${protocol}//${hostname}${pathname}${search}`;
   } catch {
     // If URL parsing fails, return original
     return url;
   }
 }
 
+/**
+ * Get the query string without the parameters the rules ignore
+ * The original encoding is kept unless a parameter is removed.
+ */
+function stripIgnoredParams(parsed: URL, hostname: string, rules: UrlNormalizationRules): string {
+  const ignored = new Set<string>();
+  for (const rule of rules.paramRules) {
+    if (rule.enabled && matchesRuleDomain(hostname, rule.domain)) {
+      rule.params.forEach((param) => ignored.add(param.toLowerCase()));
+    }
+  }
+
+  if (!rules.stripTrackingParams && ignored.size === 0) {
+    return parsed.search;
+  }
+
+  const isIgnored = (name: string) => {
+    const lower = name.toLowerCase();
+    return ignored.has(lower)
+      || (rules.stripTrackingParams && (lower.startsWith('utm_') || TRACKING_PARAMS.includes(lower)));
+  };
+
+  const params = Array.from(parsed.searchParams.entries());
+  const kept = params.filter(([name]) => !isIgnored(name));
+  if (kept.length === params.length) {
+    return parsed.search;
+  }
+
+  const search = new URLSearchParams(kept).toString();
+  return search ? `?${search}` : '';
+}
+
+function matchesRuleDomain(hostname: string, domain: string): boolean {
+  const pattern = domain.trim().toLowerCase().replace(/^www\./, '');
+  if (!pattern) return false;
+  const host = hostname.replace(/^www\./, '');
+  return host === pattern || host.endsWith(`.${pattern}`);
+}
+
+/**
+ * Split a comma- or space-separated list of query parameter names
+ */
+export function parseParamList(text: string): string[] {
+  return [...new Set(text.split(/[\s,]+/).map((param) => param.trim()).filter(Boolean))];
+}
+
+/**
+ * Validate a per-domain query parameter rule
+ * Returns an error message, or null if valid.
+ */
+export function validateQueryParamRule(rule: Pick<QueryParamRule, 'domain' | 'params'>): string | null {
+  const domain = rule.domain.trim();
+  if (!domain) return 'Domain is required';
+  if (/[/\s:]/.test(domain)) {
+    return 'Enter a domain only, without a scheme or path (e.g. youtube.com)';
+  }
+  if (rule.params.length === 0) return 'Enter at least one parameter name';
+  return null;
+}
+
 /**
  * Extract display domain from URL
  * - Strip www.
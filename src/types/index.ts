@@ -10,12 +10,14 @@
 export const NOT_DELETED = 0;
 export const NOT_FAVORITED = 0;
 export const NOT_OPENED = 0;
+export const NOT_RESURFACED = 0;
 
 export interface Item {
   itemId: string;
   url: string;
   normalizedUrl: string;
-  title: string;
+  title: string;         // Title after cleanup rules
+  rawTitle: string;      // Title as captured, '' if the page had none
   domain: string;
   favIconUrl: string | null;
   createdAt: number;
@@ -24,6 +26,9 @@ export interface Item {
   favoritedAt: number;   // Timestamp when favorited, 0 if not favorited
   deletedAt: number;     // Timestamp when deleted, 0 if not deleted
   lastOpenedAt: number;  // Timestamp when last opened, 0 if never opened
+  resurfacedAt: number;  // Timestamp when a capture last un-hid it, 0 if never
+  words: string[];       // Search index words from title, URL, and domain
+  tags: string[];        // Lowercase tag names, no duplicates
   updatedAt: number;
 }
 
@@ -32,11 +37,27 @@ export interface Capture {
   createdAt: number;
   tabCountCaptured: number;
   tabCountSkippedInternal: number;
+  tabCountSkippedByRule: number; // Tabs matching a user exclusion rule
   tabCountUpdatedExisting: number;
   tabCountInsertedNew: number;
   tabCountAlreadyDeleted: number;
+  tabCountResurfaced: number; // Hidden items brought back by this capture
   autoCloseEnabled: boolean;
   uniqueUrlCount: number; // Count of unique URLs after deduplication
+  scope: CaptureScope; // Which tabs were considered for this capture
+  trigger: CaptureTrigger; // What started the capture ('manual' unless automatic)
+  savesCounted: boolean; // Whether existing items' saveCount was increased
+  failures: CaptureFailure[]; // URLs that could not be saved
+  name: string | null; // Optional label given when capturing
+}
+
+/**
+ * A URL left out of a capture because saving it failed
+ */
+export interface CaptureFailure {
+  url: string;
+  tabCount: number;
+  error: string;
 }
 
 export interface CaptureEvent {
@@ -50,18 +71,58 @@ export interface CaptureEvent {
   groupId: number | null;
   groupTitle: string | null;
   groupColor: string | null;
+  createdItem: boolean; // True if this capture inserted the item
+  resurfacedFrom: number; // deletedAt this capture cleared by resurfacing the item, 0 if none
+  idleMs: number | null; // Time since the URL's most recently used tab was accessed
+  previousLastSavedAt: number; // Item's lastSavedAt before this capture, 0 if it created the item
+  tagsAdded: string[]; // Tags this capture added to the item (e.g. its tab group's title)
 }
 
 // ============================================
 // Views and Sorting
 // ============================================
 
-export type ViewType = 'new' | 'old' | 'favorites' | 'frequent' | 'hidden';
+// Views that list items
+export type ItemViewType = 'new' | 'old' | 'favorites' | 'frequent' | 'hidden';
+
+// All new tab views, including capture history and captured tab groups
+export type ViewType = ItemViewType | 'captures' | 'groups';
 
 export interface ListOptions {
-  view: ViewType;
+  view: ItemViewType;
   limit: number;
   offset: number;
+  tag?: string | null; // Only items with this tag
+  group?: string | null; // Only items captured in a tab group with this title
+}
+
+export interface SearchOptions {
+  view: ItemViewType; // Results are limited to this view's items
+  tag?: string | null; // ...and to items with this tag
+  group?: string | null; // ...and to items captured in this tab group
+  limit: number;
+  cursor?: number | null; // nextCursor from the previous page
+}
+
+export interface SearchPage {
+  items: Item[]; // Best match first
+  nextCursor: number | null; // null when there are no more results
+}
+
+/**
+ * A tab group title seen in captures (groups are matched by title,
+ * since Chrome group IDs don't survive a browser restart)
+ */
+export interface CapturedGroup {
+  title: string;
+  color: string | null; // Color the group had when last captured
+  itemCount: number; // Distinct items captured in the group
+  lastCapturedAt: number;
+}
+
+export interface TagCount {
+  tag: string;
+  count: number; // Items with the tag, hidden ones included
 }
 
 // ============================================
@@ -70,20 +131,109 @@ export interface ListOptions {
 
 export type DarkMode = 'system' | 'light' | 'dark';
 
+export type AutoCaptureSchedule = 'off' | 'interval' | 'daily';
+
+export type ActionMode = 'capture' | 'preview';
+
+export type TabThresholdAction = 'off' | 'notify' | 'capture';
+
+export type ExclusionRuleType = 'domain' | 'urlGlob' | 'urlRegex' | 'pinned' | 'groupTitle';
+
+/**
+ * A user-defined rule for tabs that are never captured
+ */
+export interface ExclusionRule {
+  id: string;
+  type: ExclusionRuleType;
+  pattern: string; // Ignored for 'pinned'
+  enabled: boolean;
+}
+
+/**
+ * A user-defined regex whose matches are removed from captured titles
+ */
+export interface TitleRule {
+  id: string;
+  pattern: string;
+  enabled: boolean;
+}
+
+/**
+ * Query parameters to ignore when matching URLs on one domain
+ */
+export interface QueryParamRule {
+  id: string;
+  domain: string; // Also applies to subdomains
+  params: string[];
+  enabled: boolean;
+}
+
+/**
+ * How URLs are normalized for deduplication (beyond the fixed rules:
+ * lowercase host, no fragment, no trailing slash)
+ */
+export interface UrlNormalizationRules {
+  stripTrackingParams: boolean; // utm_*, fbclid, gclid, ...
+  paramRules: QueryParamRule[];
+  foldScheme: boolean; // Treat http:// and https:// as the same page
+  foldWww: boolean; // Treat www.example.com and example.com as the same site
+}
+
+export const DEFAULT_URL_NORMALIZATION: UrlNormalizationRules = {
+  stripTrackingParams: false,
+  paramRules: [],
+  foldScheme: false,
+  foldWww: false,
+};
+
 export interface Settings {
+  actionMode: ActionMode;
   autoCloseAfterSave: boolean;
   resurfaceHiddenOnRecapture: boolean;
   defaultView: ViewType;
   darkMode: DarkMode;
   showFavicons: boolean;
+  autoCaptureSchedule: AutoCaptureSchedule;
+  autoCaptureIntervalHours: number;
+  autoCaptureDailyTime: string; // Local time as "HH:MM"
+  autoCaptureCountsSaves: boolean;
+  exclusionRules: ExclusionRule[];
+  cleanTitles: boolean; // Built-in title cleanup rules
+  titleRules: TitleRule[];
+  urlNormalization: UrlNormalizationRules;
+  tagGroupTitles: boolean; // Tag captured items with their tab group's title
+  idleHarvestEnabled: boolean;
+  idleHarvestThresholdHours: number;
+  tabThresholdAction: TabThresholdAction;
+  tabThreshold: number;
+  saveOnWindowClose: boolean;
+  captureIncognito: boolean;
+  clearIncognitoOnClose: boolean;
 }
 
 export const DEFAULT_SETTINGS: Settings = {
+  actionMode: 'capture',
   autoCloseAfterSave: false,
   resurfaceHiddenOnRecapture: false,
   defaultView: 'new',
   darkMode: 'system',
   showFavicons: true,
+  autoCaptureSchedule: 'off',
+  autoCaptureIntervalHours: 6,
+  autoCaptureDailyTime: '18:00',
+  autoCaptureCountsSaves: false,
+  exclusionRules: [],
+  cleanTitles: true,
+  titleRules: [],
+  urlNormalization: DEFAULT_URL_NORMALIZATION,
+  tagGroupTitles: false,
+  idleHarvestEnabled: false,
+  idleHarvestThresholdHours: 12,
+  tabThresholdAction: 'off',
+  tabThreshold: 50,
+  saveOnWindowClose: false,
+  captureIncognito: false,
+  clearIncognitoOnClose: true,
 };
 
 // ============================================
@@ -98,6 +248,7 @@ export interface TabInfo {
   favIconUrl: string | null;
   pinned: boolean;
   groupId: number;
+  lastAccessed: number | null; // When the tab was last active, if known
 }
 
 export interface TabGroupInfo {
@@ -106,6 +257,40 @@ export interface TabGroupInfo {
   color: string | null;
 }
 
+/**
+ * Last known capturable tabs of a window, kept so they can be
+ * saved after the window closes
+ */
+export interface WindowSnapshot {
+  windowId: number;
+  tabs: TabInfo[];
+  groups: TabGroupInfo[];
+  skippedCount: number; // Internal tabs left out of the snapshot
+  updatedAt: number;
+}
+
+/**
+ * A running capture, persisted so that a capture interrupted by the
+ * service worker being stopped can be detected and cleaned up
+ */
+export interface CaptureJournal {
+  captureId: string;
+  startedAt: number;
+  phase: 'saving' | 'closing';
+  tabsToClose: { tabId: number; url: string; windowId: number }[];
+}
+
+/**
+ * Outcome of cleaning up an interrupted capture
+ * A saved capture has its tab closing finished; an unsaved one never
+ * closed any tabs.
+ */
+export interface RecoveredCapture {
+  captureId: string;
+  saved: boolean;
+  tabsClosed: number;
+}
+
 /**
  * Tabs aggregated by normalized URL for a single capture
  */
@@ -121,6 +306,48 @@ export interface AggregatedTab {
   groupId: number | null;
   groupTitle: string | null;
   groupColor: string | null;
+  lastAccessed: number | null; // Most recent access across tabs with this URL
+}
+
+// ============================================
+// Capture Scope
+// ============================================
+
+/**
+ * Which tabs a capture should consider.
+ * Window-relative scopes resolve against the last focused window.
+ * 'link' captures a single URL that was never opened in a tab.
+ * 'idle' covers tabs unused for idleMs (never pinned, audible, or active).
+ * 'window' covers one specific window, e.g. one that was just closed.
+ * 'picked' covers tabs chosen one by one (e.g. in the capture preview).
+ */
+export type CaptureScope =
+  | { type: 'all' }
+  | { type: 'currentWindow' }
+  | { type: 'highlighted' }
+  | { type: 'tabGroup'; groupId: number }
+  | { type: 'tabsToRight' }
+  | { type: 'tab'; tabId: number }
+  | { type: 'link' }
+  | { type: 'idle'; idleMs: number }
+  | { type: 'window'; windowId: number }
+  | { type: 'picked'; tabIds: number[] };
+
+export const CAPTURE_SCOPE_ALL: CaptureScope = { type: 'all' };
+
+/**
+ * What started a capture. Anything other than 'manual' is automatic
+ * and can be filtered out of capture history.
+ */
+export type CaptureTrigger = 'manual' | 'scheduled' | 'idle' | 'threshold' | 'windowClosed';
+
+export interface CaptureOptions {
+  scope?: CaptureScope;
+  closeTabs?: boolean; // Overrides autoCloseAfterSave for this capture only
+  trigger?: CaptureTrigger; // Defaults to 'manual'
+  countSaves?: boolean; // Whether existing items' saveCount increases (default true)
+  isolateFailures?: boolean; // Record failing URLs and save the rest (default true)
+  name?: string | null; // Label for the capture
 }
 
 // ============================================
@@ -131,9 +358,34 @@ export interface CaptureResult {
   captureId: string;
   tabCountCaptured: number;
   tabCountSkippedInternal: number;
+  tabCountSkippedByRule: number;
   tabCountUpdatedExisting: number;
   tabCountInsertedNew: number;
   tabCountAlreadyDeleted: number;
+  tabCountResurfaced: number;
+  failures: CaptureFailure[];
+}
+
+/**
+ * How far a running capture has got, in tabs
+ */
+export interface CaptureProgress {
+  processed: number;
+  total: number;
+}
+
+export interface UndoResult {
+  captureId: string;
+  itemsDeleted: number;
+  itemsUpdated: number;
+  tabsReopened: number;
+}
+
+export interface RestoreResult {
+  captureId: string;
+  windowsOpened: number;
+  tabsOpened: number;
+  groupsCreated: number;
 }
 
 // ============================================
@@ -143,10 +395,16 @@ export interface CaptureResult {
 export type MessageType =
   | 'CAPTURE_ALL_TABS'
   | 'CAPTURE_RESULT'
-  | 'GET_LAST_CAPTURE';
+  | 'CAPTURE_PROGRESS'
+  | 'GET_LAST_CAPTURE'
+  | 'UNDO_CAPTURE'
+  | 'RESTORE_CAPTURE';
 
 export interface CaptureMessage {
   type: 'CAPTURE_ALL_TABS';
+  scope?: CaptureScope; // Defaults to all tabs
+  closeTabs?: boolean; // Defaults to the autoCloseAfterSave setting
+  name?: string | null;
 }
 
 export interface CaptureResultMessage {
@@ -154,10 +412,31 @@ export interface CaptureResultMessage {
   result: CaptureResult;
 }
 
+export interface CaptureProgressMessage {
+  type: 'CAPTURE_PROGRESS';
+  progress: CaptureProgress;
+}
+
 export interface GetLastCaptureMessage {
   type: 'GET_LAST_CAPTURE';
 }
 
-export type Message = CaptureMessage | CaptureResultMessage | GetLastCaptureMessage;
+export interface UndoCaptureMessage {
+  type: 'UNDO_CAPTURE';
+  captureId?: string; // Defaults to the most recent capture
+}
+
+export interface RestoreCaptureMessage {
+  type: 'RESTORE_CAPTURE';
+  captureId: string;
+}
+
+export type Message =
+  | CaptureMessage
+  | CaptureResultMessage
+  | CaptureProgressMessage
+  | GetLastCaptureMessage
+  | UndoCaptureMessage
+  | RestoreCaptureMessage;
 
-export type MessageResponse = CaptureResult | Capture | null;
+export type MessageResponse = CaptureResult | Capture | UndoResult | RestoreResult | null;
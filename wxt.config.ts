@@ -3,29 +3,62 @@ import { defineConfig } from 'wxt';
 export default defineConfig({
   modules: ['@wxt-dev/module-react'],
   srcDir: 'src',
-  manifest: {
+  manifest: ({ browser }) => ({
     name: 'Bookmark Backlog (bmbl)',
     short_name: 'bmbl',
     description: 'Save all tabs with one click. Triage your reading backlog.',
     version: '0.0.1',
     permissions: [
       'tabs',
-      'tabGroups',
+      // Firefox has no tab groups API; captures there have no group info
+      ...(browser === 'firefox' ? [] : ['tabGroups']),
       'storage',
       'unlimitedStorage',
       'alarms',
+      'contextMenus',
+      'activeTab',
+      'scripting',
+      'notifications',
     ],
+    // Incognito windows get their own worker and database (see lib/utils/incognito.ts).
+    // Firefox only supports spanning mode, where incognito tabs are filtered out of captures.
+    ...(browser !== 'firefox' && { incognito: 'split' as const }),
     action: {
       default_title: 'Save all tabs',
     },
+    // Unbound by default; users assign keys at chrome://extensions/shortcuts
+    commands: {
+      'capture-all-tabs': {
+        description: 'Save all tabs',
+      },
+      'capture-current-window': {
+        description: 'Save all tabs in the current window',
+      },
+      'capture-and-close': {
+        description: 'Save all tabs and close them',
+      },
+      'save-active-tab': {
+        description: 'Save the active tab only',
+      },
+    },
+    // Firefox honors the same key for its new tab page
     chrome_url_overrides: {
       newtab: 'newtab.html',
     },
+    // Firefox needs a stable add-on ID for storage.sync
+    ...(browser === 'firefox' && {
+      browser_specific_settings: {
+        gecko: {
+          id: 'bmbl@bookmark-backlog',
+          strict_min_version: '115.0', // storage.session
+        },
+      },
+    }),
     icons: {
       16: 'icon/16.png',
       32: 'icon/32.png',
       48: 'icon/48.png',
       128: 'icon/128.png',
     },
-  },
+  }),
 });